@@ -0,0 +1,313 @@
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { act, waitFor } from '@testing-library/react';
+import { renderHook } from '@testing-library/react-hooks';
+import {
+  createMonitoredInfiniteSlice,
+  IInfiniteLoaderResult,
+  IMonitoredInfiniteState,
+} from './';
+
+interface ITestItem {
+  id: string;
+  name: string;
+}
+
+type ITestState = IMonitoredInfiniteState<ITestItem, number>;
+
+interface IRootState {
+  testSlice: ITestState;
+}
+
+/**
+ * Loader which returns pages of two items, with cursors 0 to 2 available.
+ */
+const PAGED_LOADER = (
+  _params: unknown,
+  cursor: number
+): Promise<IInfiniteLoaderResult<ITestItem, number>> =>
+  Promise.resolve({
+    items: [
+      { id: `id${cursor * 2}`, name: `page${cursor}` },
+      { id: `id${cursor * 2 + 1}`, name: `page${cursor}` },
+    ],
+    nextCursor: cursor < 2 ? cursor + 1 : null,
+    previousCursor: cursor > 0 ? cursor - 1 : null,
+  });
+
+const buildStore = (
+  loader: (
+    params: unknown,
+    cursor: number,
+    signal: AbortSignal
+  ) => Promise<IInfiniteLoaderResult<ITestItem, number>> = jest
+    .fn()
+    .mockImplementation(PAGED_LOADER),
+  initialCursor = 0,
+  options: {
+    enabled?: (state: IRootState) => boolean;
+    resetOnStale?: boolean;
+  } = {}
+) => {
+  const monitoredSlice = createMonitoredInfiniteSlice<
+    IRootState,
+    ITestItem,
+    ITestState,
+    number
+  >(
+    {
+      name: 'testSlice',
+      initialState: {},
+      reducers: {},
+      initialCursor,
+      ...options,
+    },
+    loader
+  );
+  const store = configureStore({
+    reducer: { testSlice: monitoredSlice.slice.reducer },
+  });
+  return { ...monitoredSlice, store };
+};
+
+const ids = (items: ITestItem[]) => items.map((item) => item.id);
+
+describe('createMonitoredInfiniteSlice', () => {
+  describe('actions', () => {
+    describe('load', () => {
+      it('loads the first page from the initial cursor', async () => {
+        const loader = jest.fn().mockImplementation(PAGED_LOADER);
+        const { actions, selectors, store } = buildStore(loader, 1);
+        await store.dispatch(actions.load());
+        expect(loader).toBeCalledTimes(1);
+        expect(loader).toBeCalledWith(null, 1, expect.any(AbortSignal));
+        expect(ids(selectors.selectData(store.getState()))).toEqual([
+          'id2',
+          'id3',
+        ]);
+        expect(selectors.selectHasNextPage(store.getState())).toEqual(true);
+        expect(selectors.selectHasPreviousPage(store.getState())).toEqual(true);
+      });
+
+      it('refetches every loaded page in order once stale', async () => {
+        const loader = jest.fn().mockImplementation(PAGED_LOADER);
+        const { actions, slice, selectors, store } = buildStore(loader, 1);
+        await store.dispatch(actions.load());
+        await store.dispatch(actions.fetchNextPage());
+        await store.dispatch(actions.fetchPreviousPage());
+        const pages = selectors.selectPages(store.getState());
+        loader.mockClear();
+        store.dispatch(slice.actions.makeStale(null));
+        await store.dispatch(actions.load());
+        expect(loader.mock.calls.map(([, cursor]) => cursor)).toEqual([
+          0, 1, 2,
+        ]);
+        // Unchanged pages keep their references
+        expect(selectors.selectPages(store.getState())).toBe(pages);
+      });
+
+      it('refetches every loaded page even if resetOnStale is passed', async () => {
+        const loader = jest.fn().mockImplementation(PAGED_LOADER);
+        const { actions, slice, selectors, store } = buildStore(loader, 0, {
+          resetOnStale: true,
+        });
+        await store.dispatch(actions.load());
+        await store.dispatch(actions.fetchNextPage());
+        await store.dispatch(actions.fetchNextPage());
+        loader.mockClear();
+        store.dispatch(slice.actions.makeStale(null));
+        await store.dispatch(actions.load());
+        expect(loader.mock.calls.map(([, cursor]) => cursor)).toEqual([
+          0, 1, 2,
+        ]);
+        expect(selectors.selectData(store.getState())).toHaveLength(6);
+      });
+
+      it('stops refetching once a page has no next cursor', async () => {
+        const loader = jest.fn().mockImplementation(PAGED_LOADER);
+        const { actions, slice, selectors, store } = buildStore(loader);
+        await store.dispatch(actions.load());
+        await store.dispatch(actions.fetchNextPage());
+        await store.dispatch(actions.fetchNextPage());
+        loader.mockImplementation((params, cursor) =>
+          PAGED_LOADER(params, cursor).then((page) => ({
+            ...page,
+            nextCursor: null,
+          }))
+        );
+        loader.mockClear();
+        store.dispatch(slice.actions.makeStale(null));
+        await store.dispatch(actions.load());
+        expect(loader).toBeCalledTimes(1);
+        expect(ids(selectors.selectData(store.getState()))).toEqual([
+          'id0',
+          'id1',
+        ]);
+        expect(selectors.selectHasNextPage(store.getState())).toEqual(false);
+      });
+    });
+
+    describe('fetchNextPage', () => {
+      it('appends the following page', async () => {
+        const loader = jest.fn().mockImplementation(PAGED_LOADER);
+        const { actions, selectors, store } = buildStore(loader);
+        await store.dispatch(actions.load());
+        await store.dispatch(actions.fetchNextPage());
+        expect(loader).lastCalledWith(null, 1, expect.any(AbortSignal));
+        expect(ids(selectors.selectData(store.getState()))).toEqual([
+          'id0',
+          'id1',
+          'id2',
+          'id3',
+        ]);
+      });
+
+      it('does nothing after the last page', async () => {
+        const loader = jest.fn().mockImplementation(PAGED_LOADER);
+        const { actions, selectors, store } = buildStore(loader, 2);
+        await store.dispatch(actions.load());
+        expect(selectors.selectHasNextPage(store.getState())).toEqual(false);
+        await store.dispatch(actions.fetchNextPage());
+        expect(loader).toBeCalledTimes(1);
+      });
+
+      it('does nothing while loading is disabled', async () => {
+        let enabled = true;
+        const loader = jest.fn().mockImplementation(PAGED_LOADER);
+        const { actions, selectors, store } = buildStore(loader, 0, {
+          enabled: () => enabled,
+        });
+        await store.dispatch(actions.load());
+        enabled = false;
+        await store.dispatch(actions.fetchNextPage());
+        expect(loader).toBeCalledTimes(1);
+        expect(selectors.selectIsFetchingNextPage(store.getState())).toEqual(
+          false
+        );
+      });
+
+      it('does nothing before the first page is loaded', async () => {
+        const loader = jest.fn().mockImplementation(PAGED_LOADER);
+        const { actions, store } = buildStore(loader);
+        await store.dispatch(actions.fetchNextPage());
+        expect(loader).not.toBeCalled();
+      });
+
+      it('waits for a page already being fetched', async () => {
+        const loader = jest.fn().mockImplementation(PAGED_LOADER);
+        const { actions, selectors, store } = buildStore(loader);
+        await store.dispatch(actions.load());
+        const request = store.dispatch(actions.fetchNextPage());
+        expect(selectors.selectIsFetchingNextPage(store.getState())).toEqual(
+          true
+        );
+        await store.dispatch(actions.fetchNextPage());
+        await request;
+        expect(loader).toBeCalledTimes(2);
+        expect(selectors.selectIsFetchingNextPage(store.getState())).toEqual(
+          false
+        );
+      });
+
+      it('stores page errors', async () => {
+        const loader = jest.fn().mockImplementation(PAGED_LOADER);
+        const { actions, selectors, store } = buildStore(loader);
+        await store.dispatch(actions.load());
+        loader.mockRejectedValueOnce(new Error('failed'));
+        await store.dispatch(actions.fetchNextPage());
+        expect(selectors.selectError(store.getState())).toEqual(
+          expect.objectContaining({ message: 'failed' })
+        );
+        expect(ids(selectors.selectData(store.getState()))).toEqual([
+          'id0',
+          'id1',
+        ]);
+        await store.dispatch(actions.fetchNextPage());
+        expect(selectors.selectError(store.getState())).toEqual(null);
+      });
+
+      it('discards a page superseded by a reload', async () => {
+        const loader = jest.fn().mockImplementation(PAGED_LOADER);
+        const { actions, slice, selectors, store } = buildStore(loader);
+        await store.dispatch(actions.load());
+        let resolvePage: (
+          page: IInfiniteLoaderResult<ITestItem, number>
+        ) => void;
+        loader
+          .mockReturnValueOnce(
+            new Promise((resolve) => (resolvePage = resolve))
+          )
+          .mockResolvedValueOnce({ items: [], nextCursor: 1 });
+        const request = store.dispatch(actions.fetchNextPage());
+        store.dispatch(slice.actions.makeStale(null));
+        await store.dispatch(actions.load());
+        resolvePage(await PAGED_LOADER(null, 1));
+        await request;
+        expect(ids(selectors.selectData(store.getState()))).toEqual([]);
+        expect(selectors.selectIsFetchingNextPage(store.getState())).toEqual(
+          false
+        );
+      });
+    });
+
+    describe('fetchPreviousPage', () => {
+      it('prepends the preceding page', async () => {
+        const loader = jest.fn().mockImplementation(PAGED_LOADER);
+        const { actions, selectors, store } = buildStore(loader, 1);
+        await store.dispatch(actions.load());
+        await store.dispatch(actions.fetchPreviousPage());
+        expect(loader).lastCalledWith(null, 0, expect.any(AbortSignal));
+        expect(ids(selectors.selectData(store.getState()))).toEqual([
+          'id0',
+          'id1',
+          'id2',
+          'id3',
+        ]);
+        expect(selectors.selectHasPreviousPage(store.getState())).toEqual(
+          false
+        );
+      });
+    });
+  });
+
+  describe('hooks', () => {
+    describe('useMonitoredData', () => {
+      it('loads and fetches more pages', async () => {
+        const { hooks, store } = buildStore();
+        const { result } = renderHook(() => hooks.useMonitoredData(), {
+          wrapper: ({ children }) => (
+            <Provider store={store}>{children}</Provider>
+          ),
+        });
+        await waitFor(() => expect(result.current.status).toEqual('success'));
+        expect(ids(result.current.data)).toEqual(['id0', 'id1']);
+        expect(result.current.hasNextPage).toEqual(true);
+        expect(result.current.hasPreviousPage).toEqual(false);
+        act(() => result.current.fetchNextPage());
+        expect(result.current.isFetchingNextPage).toEqual(true);
+        await waitFor(() =>
+          expect(result.current.isFetchingNextPage).toEqual(false)
+        );
+        expect(ids(result.current.data)).toEqual(['id0', 'id1', 'id2', 'id3']);
+      });
+
+      it('aborts the page being fetched once no longer monitored', async () => {
+        const loader = jest.fn().mockImplementation(PAGED_LOADER);
+        const { hooks, store } = buildStore(loader);
+        const rendered = renderHook(() => hooks.useMonitoredData(), {
+          wrapper: ({ children }) => (
+            <Provider store={store}>{children}</Provider>
+          ),
+        });
+        await waitFor(() =>
+          expect(rendered.result.current.status).toEqual('success')
+        );
+        loader.mockReturnValueOnce(new Promise(() => undefined));
+        act(() => rendered.result.current.fetchNextPage());
+        rendered.unmount();
+        const [, , signal] = loader.mock.calls[1];
+        expect(signal.aborted).toEqual(true);
+      });
+    });
+  });
+});
@@ -0,0 +1,634 @@
+import { useEffect, useCallback } from 'react';
+import {
+  createSelector,
+  CreateSliceOptions,
+  Dispatch,
+  OutputSelector,
+  SerializedError,
+  ThunkAction,
+  AnyAction,
+  Draft,
+  PayloadAction,
+  miniSerializeError,
+} from '@reduxjs/toolkit';
+import { useSelector, useDispatch } from 'react-redux';
+import { createMonitoredSlice } from './';
+import type {
+  IMonitoredSlice,
+  IMonitoredSliceOptions,
+  IMonitoredState,
+  IUseMonitoredData,
+  IUseMonitoredDataOptions,
+} from './';
+
+/**
+ * Page returned by an infinite loader.
+ */
+export interface IInfiniteLoaderResult<IItem, ICursor> {
+  items: IItem[];
+
+  /**
+   * Cursor of the following page, null or undefined if this is the last page.
+   */
+  nextCursor?: ICursor | null;
+
+  /**
+   * Cursor of the preceding page, null or undefined if this is the first page.
+   */
+  previousCursor?: ICursor | null;
+}
+
+/**
+ * Loaded page along with the cursor it was loaded with.
+ */
+export interface IInfinitePage<IItem, ICursor> {
+  cursor: ICursor;
+  items: IItem[];
+  nextCursor: ICursor | null;
+  previousCursor: ICursor | null;
+}
+
+/**
+ * Direction in which an additional page is fetched.
+ */
+type PageDirection = 'next' | 'previous';
+
+/**
+ * State attributes provided for monitored infinite slice, data holds the loaded pages in order.
+ */
+export interface IMonitoredInfiniteState<IItem, ICursor>
+  extends IMonitoredState<IInfinitePage<IItem, ICursor>[]> {
+  fetchingPage: PageDirection | null;
+}
+
+/**
+ * State attribute names which are managed by the monitored infinite slice.
+ */
+type MonitoredInfiniteStateKeys = keyof IMonitoredInfiniteState<
+  unknown,
+  unknown
+>;
+
+/**
+ * Configuration options for monitored infinite slice.
+ * resetOnStale isn't supported, since refetching every loaded page in order needs the pages which it would reset.
+ */
+export interface IMonitoredInfiniteSliceOptions<
+  IItem,
+  ICursor,
+  ILoaderParams,
+  IRootState
+> extends Omit<
+    IMonitoredSliceOptions<
+      IInfinitePage<IItem, ICursor>[],
+      ILoaderParams,
+      IRootState
+    >,
+    'resetOnStale'
+  > {
+  /**
+   * Cursor used to load the first page. Default: null
+   */
+  initialCursor?: ICursor;
+}
+
+/**
+ * Object returned from useMonitoredData hook of a monitored infinite slice.
+ */
+export interface IUseMonitoredInfiniteData<IItem>
+  extends IUseMonitoredData<IItem[]> {
+  /**
+   * True if the last loaded page has a following page
+   */
+  hasNextPage: boolean;
+
+  /**
+   * True if the first loaded page has a preceding page
+   */
+  hasPreviousPage: boolean;
+
+  /**
+   * True if the following page is being fetched
+   */
+  isFetchingNextPage: boolean;
+
+  /**
+   * True if the preceding page is being fetched
+   */
+  isFetchingPreviousPage: boolean;
+
+  /**
+   * Fetch the page following the last loaded page.
+   */
+  fetchNextPage: () => void;
+
+  /**
+   * Fetch the page preceding the first loaded page.
+   */
+  fetchPreviousPage: () => void;
+}
+
+/**
+ * Object returned when creating a monitored infinite slice.
+ */
+export interface IMonitoredInfiniteSlice<
+  IRootState,
+  IState,
+  IItem,
+  ICursor = unknown,
+  ILoaderParams = unknown
+> extends Omit<
+    IMonitoredSlice<
+      IRootState,
+      IState,
+      IInfinitePage<IItem, ICursor>[],
+      ILoaderParams
+    >,
+    'selectors' | 'actions' | 'hooks' | 'context'
+  > {
+  /**
+   * Selectors for accessing different slice data/metadata.
+   */
+  selectors: Omit<
+    IMonitoredSlice<
+      IRootState,
+      IState,
+      IInfinitePage<IItem, ICursor>[],
+      ILoaderParams
+    >['selectors'],
+    'selectData' | 'createDataSelector'
+  > & {
+    /**
+     * Selects the loaded pages or initial (no) pages based on configuration.
+     */
+    selectPages: IMonitoredSlice<
+      IRootState,
+      IState,
+      IInfinitePage<IItem, ICursor>[],
+      ILoaderParams
+    >['selectors']['selectData'];
+
+    /**
+     * Selects the items of every loaded page, in order.
+     */
+    selectData: OutputSelector<
+      IRootState,
+      IItem[],
+      (res: IInfinitePage<IItem, ICursor>[]) => IItem[]
+    >;
+
+    /**
+     * Selects if the last loaded page has a following page.
+     */
+    selectHasNextPage: OutputSelector<
+      IRootState,
+      boolean,
+      (res: IInfinitePage<IItem, ICursor>[]) => boolean
+    >;
+
+    /**
+     * Selects if the first loaded page has a preceding page.
+     */
+    selectHasPreviousPage: OutputSelector<
+      IRootState,
+      boolean,
+      (res: IInfinitePage<IItem, ICursor>[]) => boolean
+    >;
+
+    /**
+     * Selects if the following page is being fetched.
+     */
+    selectIsFetchingNextPage: OutputSelector<
+      IRootState,
+      boolean,
+      (res: IState) => boolean
+    >;
+
+    /**
+     * Selects if the preceding page is being fetched.
+     */
+    selectIsFetchingPreviousPage: OutputSelector<
+      IRootState,
+      boolean,
+      (res: IState) => boolean
+    >;
+
+    /**
+     * Creates a memoized selector which projects the items (as selected by selectData).
+     */
+    createDataSelector: <ISelected>(
+      projector: (data: IItem[]) => ISelected
+    ) => OutputSelector<IRootState, ISelected, (res: IItem[]) => ISelected>;
+  };
+
+  /**
+   * Thunk actions for loading data outside of React.
+   */
+  actions: IMonitoredSlice<
+    IRootState,
+    IState,
+    IInfinitePage<IItem, ICursor>[],
+    ILoaderParams
+  >['actions'] & {
+    /**
+     * Fetches the page following the last loaded page, if any.
+     */
+    fetchNextPage: () => ThunkAction<
+      Promise<void>,
+      IRootState,
+      unknown,
+      AnyAction
+    >;
+
+    /**
+     * Fetches the page preceding the first loaded page, if any.
+     */
+    fetchPreviousPage: () => ThunkAction<
+      Promise<void>,
+      IRootState,
+      unknown,
+      AnyAction
+    >;
+  };
+
+  /**
+   * Hooks that are provided for interacting with the slice.
+   */
+  hooks: {
+    /**
+     * Monitors a slice, providing the items of every loaded page along with functions to fetch more pages.
+     * If the useMonitoredData hook isn't used, the data won't be loaded when stale.
+     */
+    useMonitoredData: (
+      options?: IUseMonitoredDataOptions
+    ) => IUseMonitoredInfiniteData<IItem>;
+  };
+}
+
+/**
+ * Checks if a page has a cursor to continue from.
+ * @param cursor Next or previous cursor of a page
+ * @returns True unless null or undefined
+ */
+const hasCursor = (cursor: unknown): boolean =>
+  cursor !== null && cursor !== undefined;
+
+/**
+ * Creates a monitored slice which loads its data a page at a time, e.g. for paginated or infinitely scrolling lists.
+ * Making it stale refetches every loaded page in order, starting from the first loaded page.
+ * @param options Monitored infinite slice and create slice options
+ * @param loader Function to load the page for a cursor based on params, the signal is aborted if the load is superseded or no longer monitored
+ * @param loaderParamsSelector Selector which returns loader params
+ * @returns New monitored infinite slice
+ */
+export function createMonitoredInfiniteSlice<
+  IRootState,
+  IItem,
+  IState extends IMonitoredInfiniteState<IItem, ICursor>,
+  ICursor = unknown,
+  ILoaderParams = unknown
+>(
+  options: IMonitoredInfiniteSliceOptions<
+    IItem,
+    ICursor,
+    ILoaderParams,
+    IRootState
+  > &
+    CreateSliceOptions<Omit<IState, MonitoredInfiniteStateKeys>>,
+  loader: (
+    params: ILoaderParams,
+    cursor: ICursor,
+    signal: AbortSignal
+  ) => Promise<IInfiniteLoaderResult<IItem, ICursor>>,
+  loaderParamsSelector: OutputSelector<
+    IRootState,
+    any,
+    (R: any) => ILoaderParams
+  > | null = null
+): IMonitoredInfiniteSlice<IRootState, IState, IItem, ICursor, ILoaderParams> {
+  const { initialCursor = null as ICursor } = options;
+
+  /**
+   * Builds a page from the loader's result.
+   * @param cursor Cursor the page was loaded with
+   * @param result Loader result
+   * @returns Page
+   */
+  const toPage = (
+    cursor: ICursor,
+    { items, nextCursor, previousCursor }: IInfiniteLoaderResult<IItem, ICursor>
+  ): IInfinitePage<IItem, ICursor> => ({
+    cursor,
+    items,
+    nextCursor: nextCursor ?? null,
+    previousCursor: previousCursor ?? null,
+  });
+
+  /**
+   * Loads the first page, or refetches as many pages as are currently loaded in order, following each refetched page's next cursor.
+   * @param params Loader params
+   * @param signal Signal which is aborted if the load is superseded
+   * @param pages Currently loaded pages for the same params
+   * @returns Loaded pages
+   */
+  const loadPages = async (
+    params: ILoaderParams,
+    signal: AbortSignal,
+    pages: IInfinitePage<IItem, ICursor>[]
+  ): Promise<IInfinitePage<IItem, ICursor>[]> => {
+    const loaded: IInfinitePage<IItem, ICursor>[] = [];
+    let cursor = pages.length ? pages[0].cursor : initialCursor;
+    for (;;) {
+      const page = toPage(cursor, await loader(params, cursor, signal));
+      loaded.push(page);
+      if (
+        loaded.length >= pages.length ||
+        !hasCursor(page.nextCursor) ||
+        signal.aborted
+      ) {
+        return loaded;
+      }
+      cursor = page.nextCursor;
+    }
+  };
+
+  /**
+   * Slice options of the underlying monitored slice, whose own state also includes fetchingPage.
+   */
+  type IPageSliceOptions = CreateSliceOptions<
+    Omit<IState, keyof IMonitoredState<unknown>>
+  >;
+
+  const monitoredSlice = createMonitoredSlice<
+    IRootState,
+    IInfinitePage<IItem, ICursor>[],
+    IState,
+    ILoaderParams
+  >(
+    {
+      ...options,
+      resetOnStale: false,
+      initialState: {
+        ...options.initialState,
+        fetchingPage: null,
+      } as IPageSliceOptions['initialState'],
+      // The options' reducers don't access fetchingPage, which they're typed without
+      extraReducers:
+        options.extraReducers as IPageSliceOptions['extraReducers'],
+      reducers: {
+        ...options.reducers,
+        startPage: (
+          state: Draft<IState>,
+          action: PayloadAction<{ direction: PageDirection }>
+        ) => {
+          state.fetchingPage = action.payload.direction;
+        },
+        settlePage: (
+          state: Draft<IState>,
+          action: PayloadAction<{
+            direction: PageDirection;
+            page?: IInfinitePage<IItem, ICursor>;
+            error?: SerializedError;
+          }>
+        ) => {
+          const { direction, page, error } = action.payload;
+          state.fetchingPage = null;
+          if (page) {
+            if (direction === 'next') {
+              state.data.push(page as Draft<IInfinitePage<IItem, ICursor>>);
+            } else {
+              state.data.unshift(page as Draft<IInfinitePage<IItem, ICursor>>);
+            }
+            state.error = null;
+          }
+          if (error) {
+            state.error = error;
+          }
+        },
+      },
+    },
+    [],
+    loadPages,
+    loaderParamsSelector
+  );
+
+  const {
+    slice,
+    selectors: {
+      selectSlice,
+      selectLoading,
+      selectEnabled,
+      selectIsMonitored,
+      selectData: selectPages,
+    },
+  } = monitoredSlice;
+
+  /**
+   * Concatenates the items of pages.
+   * @param pages Loaded pages
+   * @returns Items of every page, in order
+   */
+  const concatPages = (pages: IInfinitePage<IItem, ICursor>[]): IItem[] =>
+    ([] as IItem[]).concat(...pages.map((page) => page.items));
+
+  /**
+   * Selector which returns the items of every loaded page.
+   */
+  const selectData = createSelector(selectPages, concatPages);
+
+  /**
+   * Selector which returns true if the last loaded page has a following page.
+   */
+  const selectHasNextPage = createSelector(
+    selectPages,
+    (pages) => pages.length > 0 && hasCursor(pages[pages.length - 1].nextCursor)
+  );
+
+  /**
+   * Selector which returns true if the first loaded page has a preceding page.
+   */
+  const selectHasPreviousPage = createSelector(
+    selectPages,
+    (pages) => pages.length > 0 && hasCursor(pages[0].previousCursor)
+  );
+
+  /**
+   * Selector which returns true if the following page is being fetched.
+   */
+  const selectIsFetchingNextPage = createSelector(
+    selectSlice,
+    (slice) => slice.fetchingPage === 'next'
+  );
+
+  /**
+   * Selector which returns true if the preceding page is being fetched.
+   */
+  const selectIsFetchingPreviousPage = createSelector(
+    selectSlice,
+    (slice) => slice.fetchingPage === 'previous'
+  );
+
+  /**
+   * Creates a memoized selector which projects the items returned by selectData.
+   * @param projector Function which projects the items
+   * @returns Selector which only recomputes when the items change
+   */
+  const createDataSelector = <ISelected>(
+    projector: (data: IItem[]) => ISelected
+  ) => createSelector(selectData, projector);
+
+  /**
+   * In-flight page requests, one per store (keyed by the store's getState).
+   */
+  const pageRequests = new WeakMap<
+    () => IRootState,
+    { controller: AbortController; promise: Promise<void> }
+  >();
+
+  /**
+   * Thunk action that aborts the in-flight page request if the slice is no longer being monitored.
+   * @returns Action
+   */
+  const abortPageUnmonitored =
+    () =>
+    (dispatch: Dispatch, getState: () => IRootState): void => {
+      if (!selectIsMonitored(getState())) {
+        pageRequests.get(getState)?.controller.abort();
+      }
+    };
+
+  /**
+   * Creates a thunk action that fetches the page following the last loaded page, or preceding the first loaded page.
+   * Nothing is fetched while loading is disabled, while loading or already fetching a page, or if there's no page in that direction.
+   * @param direction Direction to fetch in
+   * @returns Action which resolves once the page (or the page already in-flight) settles
+   */
+  const fetchPage =
+    (direction: PageDirection) =>
+    () =>
+    async (dispatch: Dispatch, getState: () => IRootState): Promise<void> => {
+      const state = getState();
+      const { data: pages, fetchingPage } = selectSlice(state);
+      if (fetchingPage !== null) {
+        return pageRequests.get(getState)?.promise;
+      }
+      const hasPage =
+        direction === 'next'
+          ? selectHasNextPage(state)
+          : selectHasPreviousPage(state);
+      if (!hasPage || selectLoading(state) || !selectEnabled(state)) {
+        return;
+      }
+      const cursor =
+        direction === 'next'
+          ? pages[pages.length - 1].nextCursor
+          : pages[0].previousCursor;
+      const params = monitoredSlice.actions.getLoadedParams()(
+        dispatch,
+        getState,
+        undefined
+      );
+
+      const controller = new AbortController();
+      // A page is superseded if it's aborted, or a load started or replaced the pages in the middle of fetching
+      const isCurrent = () =>
+        !controller.signal.aborted &&
+        selectSlice(getState()).data === pages &&
+        !selectLoading(getState());
+
+      const request = { controller, promise: Promise.resolve() };
+      pageRequests.set(getState, request);
+      dispatch(slice.actions.startPage({ direction }));
+      request.promise = (async () => {
+        try {
+          const result = await loader(params, cursor, controller.signal);
+          dispatch(
+            slice.actions.settlePage(
+              isCurrent()
+                ? { direction, page: toPage(cursor, result) }
+                : { direction }
+            )
+          );
+        } catch (err) {
+          dispatch(
+            slice.actions.settlePage(
+              isCurrent()
+                ? { direction, error: miniSerializeError(err) }
+                : { direction }
+            )
+          );
+        } finally {
+          if (pageRequests.get(getState) === request) {
+            pageRequests.delete(getState);
+          }
+        }
+      })();
+      return request.promise;
+    };
+
+  const fetchNextPage = fetchPage('next');
+  const fetchPreviousPage = fetchPage('previous');
+
+  /**
+   * Hook to monitor a slice, providing the items of every loaded page along with functions to fetch more pages.
+   * @param hookOptions Optional overrides for the slice's polling configuration and enabled flag
+   * @returns items, loading and status flags, error, attempt counts, page flags, and makeStale/refetch/fetchNextPage/fetchPreviousPage functions
+   */
+  const useMonitoredData = (
+    hookOptions: IUseMonitoredDataOptions = {}
+  ): IUseMonitoredInfiniteData<IItem> => {
+    const dispatch = useDispatch();
+
+    const hookData = monitoredSlice.hooks.useMonitoredData(
+      concatPages,
+      undefined,
+      hookOptions
+    );
+    const hasNextPage = useSelector(selectHasNextPage);
+    const hasPreviousPage = useSelector(selectHasPreviousPage);
+    const isFetchingNextPage = useSelector(selectIsFetchingNextPage);
+    const isFetchingPreviousPage = useSelector(selectIsFetchingPreviousPage);
+
+    // Runs after the monitor is removed, so the page request is only aborted once nothing monitors the slice
+    useEffect(
+      () => () => {
+        dispatch(abortPageUnmonitored());
+      },
+      [dispatch]
+    );
+
+    const fetchNext = useCallback(() => {
+      dispatch(fetchNextPage());
+    }, [dispatch]);
+
+    const fetchPrevious = useCallback(() => {
+      dispatch(fetchPreviousPage());
+    }, [dispatch]);
+
+    return {
+      ...hookData,
+      hasNextPage,
+      hasPreviousPage,
+      isFetchingNextPage,
+      isFetchingPreviousPage,
+      fetchNextPage: fetchNext,
+      fetchPreviousPage: fetchPrevious,
+    };
+  };
+
+  return {
+    slice,
+    selectors: {
+      ...monitoredSlice.selectors,
+      selectPages,
+      selectData,
+      selectHasNextPage,
+      selectHasPreviousPage,
+      selectIsFetchingNextPage,
+      selectIsFetchingPreviousPage,
+      createDataSelector,
+    },
+    actions: { ...monitoredSlice.actions, fetchNextPage, fetchPreviousPage },
+    hooks: { useMonitoredData },
+  };
+}
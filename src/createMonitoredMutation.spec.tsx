@@ -0,0 +1,252 @@
+import { Provider } from 'react-redux';
+import {
+  PayloadAction,
+  configureStore,
+  createSlice,
+  SliceCaseReducers,
+  createSelector,
+} from '@reduxjs/toolkit';
+import { waitFor } from '@testing-library/react';
+import { renderHook } from '@testing-library/react-hooks';
+import {
+  createMonitoredMutation,
+  createMonitoredSlice,
+  IMonitoredMutationOptions,
+  IMonitoredState,
+} from './';
+
+interface ITestItem {
+  id: string;
+  name: string;
+}
+
+interface IOtherState {
+  factoryId: string;
+}
+
+type ITestState = IMonitoredState<ITestItem[]>;
+
+interface IRootState {
+  testSlice: ITestState;
+  otherTestSlice: ITestState;
+  otherSlice: IOtherState;
+  testMutation: ReturnType<
+    ReturnType<typeof buildTestMutation>['slice']['reducer']
+  >;
+}
+
+const otherSlice = createSlice<IOtherState, SliceCaseReducers<IOtherState>>({
+  name: 'otherSlice',
+  initialState: {
+    factoryId: 'factory1',
+  },
+  reducers: {
+    setFactoryId: (state, action: PayloadAction<string>) => {
+      state.factoryId = action.payload;
+    },
+  },
+});
+
+const selectFactoryId = createSelector<IRootState, IOtherState, string>(
+  (state) => state.otherSlice,
+  (slice) => slice.factoryId
+);
+
+const buildMonitoredSlice = (name: string) =>
+  createMonitoredSlice<IRootState, ITestItem[], ITestState, string>(
+    { name, initialState: {}, reducers: {} },
+    [],
+    jest.fn().mockResolvedValue([]),
+    selectFactoryId
+  );
+
+const testSlice = buildMonitoredSlice('testSlice');
+const otherTestSlice = buildMonitoredSlice('otherTestSlice');
+
+function buildTestMutation(
+  mutator: (args: ITestItem) => Promise<ITestItem> = jest
+    .fn()
+    .mockImplementation((args) => Promise.resolve(args)),
+  invalidates: IMonitoredMutationOptions<
+    IRootState,
+    ITestItem,
+    ITestItem
+  >['invalidates'] = [testSlice]
+) {
+  return createMonitoredMutation<IRootState, ITestItem, ITestItem>(mutator, {
+    name: 'testMutation',
+    invalidates,
+  });
+}
+
+const buildStore = (mutation = buildTestMutation()) => {
+  const store = configureStore({
+    reducer: {
+      testSlice: testSlice.slice.reducer,
+      otherTestSlice: otherTestSlice.slice.reducer,
+      otherSlice: otherSlice.reducer,
+      testMutation: mutation.slice.reducer,
+    },
+  });
+  return store;
+};
+
+const buildLoadedStore = async (mutation = buildTestMutation()) => {
+  const store = buildStore(mutation);
+  await store.dispatch(testSlice.actions.load());
+  await store.dispatch(otherTestSlice.actions.load());
+  return store;
+};
+
+const ITEM = { id: 'id1', name: 'name1' };
+
+describe('createMonitoredMutation', () => {
+  describe('selectors', () => {
+    const buildRootState = (pendingCount = 0, error = null) =>
+      ({
+        testMutation: { pendingCount, error },
+      } as IRootState);
+
+    describe('selectPending', () => {
+      it('returns true if a mutation is pending', () => {
+        const { selectors } = buildTestMutation();
+        expect(selectors.selectPending(buildRootState(1))).toEqual(true);
+      });
+
+      it('returns false if no mutation is pending', () => {
+        const { selectors } = buildTestMutation();
+        expect(selectors.selectPending(buildRootState(0))).toEqual(false);
+      });
+    });
+
+    describe('selectError', () => {
+      it('returns the error from the slice', () => {
+        const { selectors } = buildTestMutation();
+        expect(
+          selectors.selectError(buildRootState(0, { message: 'failed' }))
+        ).toEqual({ message: 'failed' });
+      });
+    });
+  });
+
+  describe('actions', () => {
+    describe('mutate', () => {
+      it('resolves with the mutator result', async () => {
+        const mutator = jest.fn().mockResolvedValue({ id: 'id2', name: '' });
+        const mutation = buildTestMutation(mutator);
+        const store = buildStore(mutation);
+        const result = await store.dispatch(mutation.actions.mutate(ITEM));
+        expect(result).toEqual({ id: 'id2', name: '' });
+        expect(mutator).toBeCalledWith(ITEM);
+      });
+
+      it('tracks pending state', async () => {
+        let resolveMutator: (item: ITestItem) => void;
+        const mutator = jest.fn().mockImplementation(
+          () =>
+            new Promise((resolve) => {
+              resolveMutator = resolve;
+            })
+        );
+        const mutation = buildTestMutation(mutator);
+        const store = buildStore(mutation);
+        const promise = store.dispatch(mutation.actions.mutate(ITEM));
+        expect(store.getState().testMutation.pendingCount).toEqual(1);
+        resolveMutator(ITEM);
+        await promise;
+        expect(store.getState().testMutation.pendingCount).toEqual(0);
+      });
+
+      it('marks invalidated slices as stale once it succeeds', async () => {
+        const mutation = buildTestMutation();
+        const store = await buildLoadedStore(mutation);
+        await store.dispatch(mutation.actions.mutate(ITEM));
+        expect(store.getState().testSlice.stale).toEqual(true);
+        expect(store.getState().otherTestSlice.stale).toEqual(false);
+      });
+
+      it('only marks filtered slices as stale', async () => {
+        const mutation = buildTestMutation(undefined, [
+          {
+            monitoredSlice: testSlice,
+            filter: (params) => params === 'factory2',
+          },
+          {
+            monitoredSlice: otherTestSlice,
+            filter: (params, args) =>
+              params === 'factory1' && args.id === ITEM.id,
+          },
+        ]);
+        const store = await buildLoadedStore(mutation);
+        await store.dispatch(mutation.actions.mutate(ITEM));
+        expect(store.getState().testSlice.stale).toEqual(false);
+        expect(store.getState().otherTestSlice.stale).toEqual(true);
+      });
+
+      it('stores the error and does not invalidate if it fails', async () => {
+        const mutator = jest.fn().mockRejectedValue(new Error('failed'));
+        const mutation = buildTestMutation(mutator);
+        const store = await buildLoadedStore(mutation);
+        await expect(
+          store.dispatch(mutation.actions.mutate(ITEM))
+        ).rejects.toEqual(new Error('failed'));
+        expect(store.getState().testMutation).toEqual({
+          pendingCount: 0,
+          error: expect.objectContaining({ message: 'failed' }),
+        });
+        expect(store.getState().testSlice.stale).toEqual(false);
+      });
+    });
+  });
+
+  describe('hooks', () => {
+    describe('useMonitoredMutation', () => {
+      it('runs the mutation and returns its status', async () => {
+        const mutation = buildTestMutation();
+        const store = await buildLoadedStore(mutation);
+        const rendered = renderHook(
+          () => mutation.hooks.useMonitoredMutation(),
+          {
+            wrapper: ({ children }) => (
+              <Provider store={store}>{children}</Provider>
+            ),
+          }
+        );
+        expect(rendered.result.current.pending).toEqual(false);
+        const promise = rendered.result.current.mutate(ITEM);
+        await waitFor(() =>
+          expect(rendered.result.current.pending).toEqual(true)
+        );
+        await expect(promise).resolves.toEqual({ result: ITEM });
+        await waitFor(() =>
+          expect(rendered.result.current.pending).toEqual(false)
+        );
+        expect(rendered.result.current.error).toBeNull();
+        expect(store.getState().testSlice.stale).toEqual(true);
+      });
+
+      it('resolves with the error rather than rejecting if it fails', async () => {
+        const mutator = jest.fn().mockRejectedValue(new Error('failed'));
+        const mutation = buildTestMutation(mutator);
+        const store = await buildLoadedStore(mutation);
+        const rendered = renderHook(
+          () => mutation.hooks.useMonitoredMutation(),
+          {
+            wrapper: ({ children }) => (
+              <Provider store={store}>{children}</Provider>
+            ),
+          }
+        );
+        await expect(rendered.result.current.mutate(ITEM)).resolves.toEqual({
+          error: expect.objectContaining({ message: 'failed' }),
+        });
+        await waitFor(() =>
+          expect(rendered.result.current.error).toEqual(
+            expect.objectContaining({ message: 'failed' })
+          )
+        );
+        expect(store.getState().testSlice.stale).toEqual(false);
+      });
+    });
+  });
+});
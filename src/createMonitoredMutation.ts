@@ -0,0 +1,295 @@
+import { useCallback } from 'react';
+import {
+  createSlice,
+  createSelector,
+  SliceCaseReducers,
+  Dispatch,
+  OutputSelector,
+  Slice,
+  SerializedError,
+  ThunkAction,
+  AnyAction,
+  miniSerializeError,
+} from '@reduxjs/toolkit';
+import { useSelector, useDispatch } from 'react-redux';
+
+/**
+ * State attributes provided for a monitored mutation.
+ */
+export interface IMonitoredMutationState {
+  pendingCount: number;
+  error: SerializedError | null;
+}
+
+/**
+ * The parts of a monitored slice which are needed to invalidate it.
+ */
+export interface IInvalidatableSlice<IRootState> {
+  actions: {
+    makeStale: () => ThunkAction<void, IRootState, unknown, AnyAction>;
+    getLoadedParams: () => ThunkAction<unknown, IRootState, unknown, AnyAction>;
+  };
+}
+
+/**
+ * Monitored slice invalidated by a mutation, optionally only when a filter matches.
+ */
+export interface IMutationInvalidation<IRootState, IArgs, IResult> {
+  /**
+   * Monitored slice to mark as stale.
+   */
+  monitoredSlice: IInvalidatableSlice<IRootState>;
+
+  /**
+   * Decides if the slice should be marked as stale based on its loaded params. Default: always
+   * Only the params of the current entry are known, so with the keyed option every cached entry is marked as stale too once the filter matches.
+   */
+  filter?: (params: unknown, args: IArgs, result: IResult) => boolean;
+}
+
+/**
+ * Configuration options for monitored mutation.
+ */
+export interface IMonitoredMutationOptions<IRootState, IArgs, IResult> {
+  /**
+   * Name of the mutation's slice.
+   */
+  name: string;
+
+  /**
+   * Monitored slices to mark as stale once the mutation succeeds.
+   */
+  invalidates?: (
+    | IInvalidatableSlice<IRootState>
+    | IMutationInvalidation<IRootState, IArgs, IResult>
+  )[];
+}
+
+/**
+ * Outcome of a mutation run through the useMonitoredMutation hook, either the mutator's result or its error.
+ */
+export type MonitoredMutationResult<IResult> =
+  | { result: IResult; error?: undefined }
+  | { result?: undefined; error: SerializedError };
+
+/**
+ * Object returned from useMonitoredMutation hook.
+ */
+export interface IUseMonitoredMutation<IArgs, IResult> {
+  /**
+   * Runs the mutation, resolving with its result or error rather than rejecting since the error is also provided by the hook.
+   */
+  mutate: (args: IArgs) => Promise<MonitoredMutationResult<IResult>>;
+
+  /**
+   * True if at least one call of the mutation is pending
+   */
+  pending: boolean;
+
+  /**
+   * Error from the last failed mutation, or null if the last mutation succeeded
+   */
+  error: SerializedError | null;
+}
+
+/**
+ * Object returned when creating a monitored mutation.
+ */
+export interface IMonitoredMutation<IRootState, IArgs, IResult> {
+  /**
+   * The actual slice.
+   */
+  slice: Slice<IMonitoredMutationState>;
+
+  /**
+   * Selectors for accessing the mutation's status.
+   */
+  selectors: {
+    /**
+     * Selects the entire slice.
+     */
+    selectSlice: OutputSelector<
+      IRootState,
+      IMonitoredMutationState,
+      (res: IMonitoredMutationState) => IMonitoredMutationState
+    >;
+
+    /**
+     * Selects if at least one call of the mutation is pending.
+     */
+    selectPending: OutputSelector<
+      IRootState,
+      boolean,
+      (res: IMonitoredMutationState) => boolean
+    >;
+
+    /**
+     * Selects the error from the last failed mutation.
+     */
+    selectError: OutputSelector<
+      IRootState,
+      SerializedError | null,
+      (res: IMonitoredMutationState) => SerializedError | null
+    >;
+  };
+
+  /**
+   * Thunk actions for running the mutation outside of React.
+   */
+  actions: {
+    /**
+     * Runs the mutation and marks invalidated slices as stale once it succeeds.
+     */
+    mutate: (
+      args: IArgs
+    ) => ThunkAction<Promise<IResult>, IRootState, unknown, AnyAction>;
+  };
+
+  /**
+   * Hooks that are provided for running the mutation.
+   */
+  hooks: {
+    /**
+     * Provides the mutate function along with the mutation's status.
+     */
+    useMonitoredMutation: () => IUseMonitoredMutation<IArgs, IResult>;
+  };
+}
+
+/**
+ * Creates a monitored mutation which runs a write and marks the monitored slices it invalidates as stale once it succeeds.
+ * @param mutator Function which performs the write
+ * @param options Monitored mutation options
+ * @returns New monitored mutation
+ */
+export function createMonitoredMutation<
+  IRootState,
+  IArgs = void,
+  IResult = void
+>(
+  mutator: (args: IArgs) => Promise<IResult>,
+  options: IMonitoredMutationOptions<IRootState, IArgs, IResult>
+): IMonitoredMutation<IRootState, IArgs, IResult> {
+  const slice = createSlice<
+    IMonitoredMutationState,
+    SliceCaseReducers<IMonitoredMutationState>
+  >({
+    name: options.name,
+    initialState: {
+      pendingCount: 0,
+      error: null,
+    } as IMonitoredMutationState,
+    reducers: {
+      start: (state) => {
+        state.pendingCount += 1;
+      },
+      fulfill: (state) => {
+        state.pendingCount = Math.max(0, state.pendingCount - 1);
+        state.error = null;
+      },
+      reject: (state, action) => {
+        state.pendingCount = Math.max(0, state.pendingCount - 1);
+        state.error = action.payload.error;
+      },
+    },
+  });
+
+  /**
+   * Selector which returns the entire slice.
+   */
+  const selectSlice = createSelector<
+    IRootState,
+    IMonitoredMutationState,
+    IMonitoredMutationState
+  >(
+    (state) => (state as any)[options.name] as IMonitoredMutationState,
+    (slice) => slice
+  );
+
+  /**
+   * Selector which returns true if at least one call of the mutation is pending.
+   */
+  const selectPending = createSelector(
+    selectSlice,
+    (slice) => slice.pendingCount > 0
+  );
+
+  /**
+   * Selector which returns the error from the last failed mutation.
+   */
+  const selectError = createSelector(selectSlice, (slice) => slice.error);
+
+  const invalidations = (options.invalidates ?? []).map((invalidation) =>
+    'monitoredSlice' in invalidation
+      ? invalidation
+      : { monitoredSlice: invalidation }
+  );
+
+  /**
+   * Thunk action that runs the mutation and marks invalidated slices as stale once it succeeds.
+   * @param args Arguments for the mutator
+   * @returns Action which resolves with the mutator's result, or rejects with its error
+   */
+  const mutate =
+    (args: IArgs) =>
+    async (
+      dispatch: Dispatch,
+      getState: () => IRootState
+    ): Promise<IResult> => {
+      dispatch(slice.actions.start(null));
+      let result: IResult;
+      try {
+        result = await mutator(args);
+      } catch (err) {
+        dispatch(slice.actions.reject({ error: miniSerializeError(err) }));
+        throw err;
+      }
+      dispatch(slice.actions.fulfill(null));
+
+      for (const { monitoredSlice, filter } of invalidations) {
+        const params = monitoredSlice.actions.getLoadedParams()(
+          dispatch,
+          getState,
+          undefined
+        );
+        if (!filter || filter(params, args, result)) {
+          monitoredSlice.actions.makeStale()(dispatch, getState, undefined);
+        }
+      }
+      return result;
+    };
+
+  /**
+   * Hook which provides the mutate function along with the mutation's status.
+   * @returns mutate function, pending flag, and error
+   */
+  const useMonitoredMutation = (): IUseMonitoredMutation<IArgs, IResult> => {
+    const dispatch = useDispatch();
+
+    const pending = useSelector(selectPending);
+    const error = useSelector(selectError);
+
+    const mutateArgs = useCallback(
+      async (args: IArgs): Promise<MonitoredMutationResult<IResult>> => {
+        try {
+          const result = await (dispatch(
+            mutate(args)
+          ) as unknown as Promise<IResult>);
+          return { result };
+        } catch (err) {
+          return { error: miniSerializeError(err) };
+        }
+      },
+      [dispatch]
+    );
+
+    return { mutate: mutateArgs, pending, error };
+  };
+
+  return {
+    slice,
+    selectors: { selectSlice, selectPending, selectError },
+    actions: { mutate },
+    hooks: { useMonitoredMutation },
+  };
+}
@@ -1,3 +1,4 @@
+import React from 'react';
 import { Provider } from 'react-redux';
 import {
   PayloadAction,
@@ -5,10 +6,23 @@ import {
   createSlice,
   SliceCaseReducers,
   createSelector,
+  SerializedError,
+  createEntityAdapter,
 } from '@reduxjs/toolkit';
 import { render, waitFor } from '@testing-library/react';
-import { renderHook } from '@testing-library/react-hooks';
-import { createMonitoredSlice, IMonitoredState } from './';
+import { renderHook, act } from '@testing-library/react-hooks';
+import {
+  createMonitoredSlice,
+  IMonitoredEntityState,
+  IMonitoredEntry,
+  IMonitoredState,
+  IRetryOptions,
+  invalidateTags,
+  MonitoredTag,
+  stableSerializeParams,
+  onFocus,
+  onReconnect,
+} from './';
 
 interface ITestItem {
   id: string;
@@ -57,13 +71,32 @@ const selectParams = createSelector<
 );
 
 const buildTestSlice = (
-  options: { resetOnStale?: boolean; resetOnLoading?: boolean } = {},
+  options: {
+    resetOnStale?: boolean;
+    resetOnLoading?: boolean;
+    retry?: IRetryOptions;
+    staleTime?: number;
+    now?: () => number;
+    pollInterval?: number;
+    keyed?: boolean;
+    maxKeyedEntries?: number;
+    providesTags?:
+      | MonitoredTag[]
+      | ((data: ITestItem[], params: unknown) => MonitoredTag[]);
+    structuralSharing?: boolean;
+    isDataEqual?: (previous: ITestItem[], next: ITestItem[]) => boolean;
+    serializeParams?: (params: unknown) => string;
+    paramsEqual?: (previous: unknown, next: unknown) => boolean;
+    enabled?: (state: IRootState) => boolean;
+    refetchOnFocus?: boolean;
+    refetchOnReconnect?: boolean;
+  } = {},
   initialData: ITestItem[] = DEFAULT_INITIAL_DATA,
   initialState = DEFAULT_INITIAL_STATE,
   loader = DEFAULT_LOADER,
   loaderParamsSelector = undefined
 ) => {
-  return createMonitoredSlice<IRootState, ITestItem[], ITestState, null>(
+  return createMonitoredSlice<IRootState, ITestItem[], ITestState, unknown>(
     {
       name: 'testSlice',
       initialState: initialState,
@@ -85,12 +118,30 @@ const buildRootState = (
     stale?: boolean;
     loading?: boolean;
     data?: ITestItem[];
+    error?: SerializedError | null;
+    attempt?: number;
+    fetchedAt?: number | null;
+    monitorCount?: number;
+    pendingUpdates?: number;
+    providedTags?: MonitoredTag[];
+    key?: string | null;
+    cache?: Record<string, IMonitoredEntry<ITestItem[]>>;
+    cacheKeys?: string[];
     selected?: string;
   } = {}
 ) => ({
   testSlice: {
     stale: true,
     loading: false,
+    error: null,
+    attempt: 0,
+    fetchedAt: null,
+    monitorCount: 0,
+    pendingUpdates: 0,
+    providedTags: [],
+    key: null,
+    cache: {},
+    cacheKeys: [],
     data: [
       { id: 'id1', name: 'name1' },
       { id: 'id2', name: 'name2' },
@@ -104,6 +155,24 @@ const buildRootState = (
   },
 });
 
+describe('stableSerializeParams', () => {
+  it('serializes params as JSON', () => {
+    expect(stableSerializeParams(['value1', 2, null])).toEqual(
+      '["value1",2,null]'
+    );
+  });
+
+  it('sorts object keys', () => {
+    expect(stableSerializeParams({ b: 1, a: { d: 2, c: 3 } })).toEqual(
+      stableSerializeParams({ a: { c: 3, d: 2 }, b: 1 })
+    );
+  });
+
+  it('serializes undefined params', () => {
+    expect(stableSerializeParams(undefined)).toEqual('undefined');
+  });
+});
+
 describe('createMonitoredSlice', () => {
   describe('selectors', () => {
     describe('selectSlice', () => {
@@ -122,6 +191,38 @@ describe('createMonitoredSlice', () => {
         const stale = selectors.selectStale(rootState);
         expect(stale).toEqual(rootState.testSlice.stale);
       });
+
+      it('returns true if the data is older than staleTime', () => {
+        const { selectors } = buildTestSlice({
+          staleTime: 1000,
+          now: () => 2000,
+        });
+        const rootState = buildRootState({ stale: false, fetchedAt: 1000 });
+        const stale = selectors.selectStale(rootState);
+        expect(stale).toEqual(true);
+      });
+
+      it('returns false if the data is younger than staleTime', () => {
+        const { selectors } = buildTestSlice({
+          staleTime: 1000,
+          now: () => 1999,
+        });
+        const rootState = buildRootState({ stale: false, fetchedAt: 1000 });
+        const stale = selectors.selectStale(rootState);
+        expect(stale).toEqual(false);
+      });
+
+      it('re-evaluates expiry as time passes', () => {
+        let currentTime = 1500;
+        const { selectors } = buildTestSlice({
+          staleTime: 1000,
+          now: () => currentTime,
+        });
+        const rootState = buildRootState({ stale: false, fetchedAt: 1000 });
+        expect(selectors.selectStale(rootState)).toEqual(false);
+        currentTime = 2500;
+        expect(selectors.selectStale(rootState)).toEqual(true);
+      });
     });
 
     describe('selectLoading', () => {
@@ -133,6 +234,180 @@ describe('createMonitoredSlice', () => {
       });
     });
 
+    describe('selectError', () => {
+      it('returns the error from the slice', () => {
+        const { selectors } = buildTestSlice();
+        const rootState = buildRootState({ error: { message: 'failed' } });
+        const error = selectors.selectError(rootState);
+        expect(error).toEqual({ message: 'failed' });
+      });
+    });
+
+    describe('selectAttempt', () => {
+      it('returns the current attempt from the slice', () => {
+        const { selectors } = buildTestSlice();
+        const rootState = buildRootState({ attempt: 2 });
+        const attempt = selectors.selectAttempt(rootState);
+        expect(attempt).toEqual(2);
+      });
+    });
+
+    describe('selectFetchedAt', () => {
+      it('returns when the data was last loaded', () => {
+        const { selectors } = buildTestSlice();
+        const rootState = buildRootState({ fetchedAt: 1234 });
+        const fetchedAt = selectors.selectFetchedAt(rootState);
+        expect(fetchedAt).toEqual(1234);
+      });
+    });
+
+    describe('selectMonitorCount', () => {
+      it('returns how many monitors are mounted', () => {
+        const { selectors } = buildTestSlice();
+        const rootState = buildRootState({ monitorCount: 2 });
+        const monitorCount = selectors.selectMonitorCount(rootState);
+        expect(monitorCount).toEqual(2);
+      });
+    });
+
+    describe('selectIsMonitored', () => {
+      it('returns true if at least one monitor is mounted', () => {
+        const { selectors } = buildTestSlice();
+        expect(
+          selectors.selectIsMonitored(buildRootState({ monitorCount: 1 }))
+        ).toEqual(true);
+      });
+
+      it('returns false if no monitors are mounted', () => {
+        const { selectors } = buildTestSlice();
+        expect(
+          selectors.selectIsMonitored(buildRootState({ monitorCount: 0 }))
+        ).toEqual(false);
+      });
+    });
+
+    describe('selectHasData', () => {
+      it('returns true if data was loaded', () => {
+        const { selectors } = buildTestSlice();
+        expect(
+          selectors.selectHasData(
+            buildRootState({ stale: false, fetchedAt: 1234 })
+          )
+        ).toEqual(true);
+      });
+
+      it('returns false if data was never loaded', () => {
+        const { selectors } = buildTestSlice();
+        expect(
+          selectors.selectHasData(
+            buildRootState({ stale: false, fetchedAt: null })
+          )
+        ).toEqual(false);
+      });
+
+      it('returns false if data is reset while stale', () => {
+        const { selectors } = buildTestSlice({ resetOnStale: true });
+        expect(
+          selectors.selectHasData(
+            buildRootState({ stale: true, fetchedAt: 1234 })
+          )
+        ).toEqual(false);
+      });
+
+      it('returns false if data is reset while loading', () => {
+        const { selectors } = buildTestSlice({ resetOnLoading: true });
+        expect(
+          selectors.selectHasData(
+            buildRootState({ loading: true, fetchedAt: 1234 })
+          )
+        ).toEqual(false);
+      });
+    });
+
+    describe('selectIsFetching', () => {
+      it('returns true only while loading', () => {
+        const { selectors } = buildTestSlice();
+        expect(
+          selectors.selectIsFetching(buildRootState({ loading: true }))
+        ).toEqual(true);
+        expect(
+          selectors.selectIsFetching(
+            buildRootState({ stale: true, loading: false })
+          )
+        ).toEqual(false);
+      });
+    });
+
+    describe('selectIsInitialLoading', () => {
+      it('returns true if loading without loaded data', () => {
+        const { selectors } = buildTestSlice();
+        expect(
+          selectors.selectIsInitialLoading(
+            buildRootState({ stale: false, loading: true, fetchedAt: null })
+          )
+        ).toEqual(true);
+      });
+
+      it('returns false while disabled', () => {
+        const { selectors } = buildTestSlice({ enabled: () => false });
+        expect(
+          selectors.selectIsInitialLoading(
+            buildRootState({ stale: true, fetchedAt: null })
+          )
+        ).toEqual(false);
+      });
+
+      it('returns false if refreshing loaded data', () => {
+        const { selectors } = buildTestSlice();
+        expect(
+          selectors.selectIsInitialLoading(
+            buildRootState({ stale: true, fetchedAt: 1234 })
+          )
+        ).toEqual(false);
+      });
+    });
+
+    describe('selectStatus', () => {
+      it.each([
+        ['idle', { stale: false, fetchedAt: null }],
+        ['loading', { stale: true, fetchedAt: null }],
+        ['loading', { stale: false, loading: true, fetchedAt: null }],
+        ['success', { stale: false, fetchedAt: 1234 }],
+        ['error', { stale: false, error: { message: 'failed' } }],
+        ['refreshing', { stale: true, fetchedAt: 1234 }],
+        [
+          'refreshing',
+          {
+            stale: false,
+            loading: true,
+            error: { message: 'failed' },
+            fetchedAt: 1234,
+          },
+        ],
+      ])('returns %s', (status, modifications) => {
+        const { selectors } = buildTestSlice();
+        expect(selectors.selectStatus(buildRootState(modifications))).toEqual(
+          status
+        );
+      });
+
+      it('returns idle while disabled', () => {
+        const { selectors } = buildTestSlice({ enabled: () => false });
+        expect(
+          selectors.selectStatus(
+            buildRootState({ stale: true, fetchedAt: 1234 })
+          )
+        ).toEqual('idle');
+      });
+
+      it('returns loading while disabled if a load is in-flight', () => {
+        const { selectors } = buildTestSlice({ enabled: () => false });
+        expect(
+          selectors.selectStatus(buildRootState({ loading: true }))
+        ).toEqual('loading');
+      });
+    });
+
     describe('selectData', () => {
       it('returns the data from the slice', () => {
         const { selectors } = buildTestSlice({
@@ -184,6 +459,58 @@ describe('createMonitoredSlice', () => {
         expect(data).toEqual(DEFAULT_INITIAL_DATA);
       });
     });
+
+    describe('selectEnabled', () => {
+      it('returns true without an enabled selector', () => {
+        const { selectors } = buildTestSlice();
+        expect(selectors.selectEnabled(buildRootState())).toEqual(true);
+      });
+
+      it('returns the result of the enabled selector', () => {
+        const { selectors } = buildTestSlice({
+          enabled: (state) => state.otherSlice.param1 !== null,
+        });
+        const rootState = buildRootState();
+        expect(selectors.selectEnabled(rootState)).toEqual(false);
+        expect(
+          selectors.selectEnabled({
+            ...rootState,
+            otherSlice: { param1: 'value1', param2: null },
+          })
+        ).toEqual(true);
+      });
+    });
+
+    describe('createDataSelector', () => {
+      it('projects the selected data', () => {
+        const { selectors } = buildTestSlice();
+        const selectNames = selectors.createDataSelector((data) =>
+          data.map((item) => item.name)
+        );
+        expect(selectNames(buildRootState({ stale: false }))).toEqual([
+          'name1',
+          'name2',
+        ]);
+      });
+
+      it('only recomputes when the data changes', () => {
+        const { selectors } = buildTestSlice();
+        const projector = jest.fn((data: ITestItem[]) => data.length);
+        const selectCount = selectors.createDataSelector(projector);
+        const rootState = buildRootState({ stale: false });
+        selectCount(rootState);
+        selectCount({
+          ...rootState,
+          testSlice: { ...rootState.testSlice, selected: 'id1' },
+        });
+        expect(projector).toBeCalledTimes(1);
+        selectCount({
+          ...rootState,
+          testSlice: { ...rootState.testSlice, data: [] },
+        });
+        expect(projector).toBeCalledTimes(2);
+      });
+    });
   });
 
   describe('slice', () => {
@@ -194,6 +521,15 @@ describe('createMonitoredSlice', () => {
 
     describe('reducer', () => {
       describe('makeStale', () => {
+        it('supersedes any in-flight load', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({ stale: false, loading: true });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, { type: 'testSlice/makeStale' })
+          ).toEqual({ ...testState, stale: true, loading: false });
+        });
+
         it('sets the slice to stale', () => {
           const { slice } = buildTestSlice({ resetOnStale: false });
           const rootState = buildRootState({ stale: false });
@@ -211,6 +547,127 @@ describe('createMonitoredSlice', () => {
             slice.reducer(testState, { type: 'testSlice/makeStale' })
           ).toEqual({ ...testState, stale: true, data: DEFAULT_INITIAL_DATA });
         });
+
+        it('does not reset data with pending optimistic updates', () => {
+          const { slice } = buildTestSlice({ resetOnStale: true });
+          const rootState = buildRootState({ stale: false, pendingUpdates: 1 });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, { type: 'testSlice/makeStale' })
+          ).toEqual({ ...testState, stale: true });
+        });
+
+        it('sets cached entries to stale', () => {
+          const { slice } = buildTestSlice({ keyed: true });
+          const entry = {
+            stale: false,
+            loading: false,
+            data: [],
+            error: null,
+            attempt: 1,
+            fetchedAt: null,
+            providedTags: [],
+          };
+          const rootState = buildRootState({
+            stale: false,
+            key: '"a"',
+            cache: { '"b"': entry },
+            cacheKeys: ['"b"'],
+          });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, { type: 'testSlice/makeStale' })
+          ).toEqual({
+            ...testState,
+            stale: true,
+            cache: { '"b"': { ...entry, stale: true } },
+          });
+        });
+      });
+
+      describe('switchKey', () => {
+        const cachedEntry = {
+          stale: false,
+          loading: false,
+          data: [{ id: 'cachedId', name: 'cachedName' }],
+          error: null,
+          attempt: 1,
+          fetchedAt: 1234,
+          providedTags: ['Item'],
+        };
+
+        it('caches the current entry and restores the entry for the new key', () => {
+          const { slice } = buildTestSlice({ keyed: true });
+          const rootState = buildRootState({
+            stale: false,
+            loading: true,
+            attempt: 1,
+            key: '"a"',
+            cache: { '"b"': cachedEntry },
+            cacheKeys: ['"b"'],
+          });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, {
+              type: 'testSlice/switchKey',
+              payload: { key: '"b"' },
+            })
+          ).toEqual({
+            ...testState,
+            ...cachedEntry,
+            key: '"b"',
+            cache: {
+              '"a"': {
+                stale: false,
+                loading: false,
+                data: testState.data,
+                error: null,
+                attempt: 1,
+                fetchedAt: null,
+                providedTags: [],
+              },
+            },
+            cacheKeys: ['"a"'],
+          });
+        });
+
+        it('starts a stale entry with initial data for an unknown key', () => {
+          const { slice } = buildTestSlice({ keyed: true });
+          const rootState = buildRootState({ stale: false });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, {
+              type: 'testSlice/switchKey',
+              payload: { key: '"a"' },
+            })
+          ).toEqual({
+            ...testState,
+            stale: true,
+            loading: false,
+            data: DEFAULT_INITIAL_DATA,
+            error: null,
+            attempt: 0,
+            fetchedAt: null,
+            key: '"a"',
+          });
+        });
+
+        it('drops the least recently used entries beyond maxKeyedEntries', () => {
+          const { slice } = buildTestSlice({ keyed: true, maxKeyedEntries: 2 });
+          const rootState = buildRootState({
+            key: '"c"',
+            cache: { '"a"': cachedEntry, '"b"': cachedEntry },
+            cacheKeys: ['"a"', '"b"'],
+          });
+          const testState = rootState.testSlice;
+          const nextState = slice.reducer(testState, {
+            type: 'testSlice/switchKey',
+            payload: { key: '"d"' },
+          });
+          expect(nextState.key).toEqual('"d"');
+          expect(nextState.cacheKeys).toEqual(['"c"']);
+          expect(Object.keys(nextState.cache)).toEqual(['"c"']);
+        });
       });
 
       describe('makeLoading', () => {
@@ -220,7 +677,7 @@ describe('createMonitoredSlice', () => {
           const testState = rootState.testSlice;
           expect(
             slice.reducer(testState, { type: 'testSlice/makeLoading' })
-          ).toEqual({ ...testState, loading: true });
+          ).toEqual({ ...testState, loading: true, attempt: 1 });
         });
 
         it('does not impact data even with resetOnLoading true', () => {
@@ -229,7 +686,86 @@ describe('createMonitoredSlice', () => {
           const testState = rootState.testSlice;
           expect(
             slice.reducer(testState, { type: 'testSlice/makeLoading' })
-          ).toEqual({ ...testState, loading: true });
+          ).toEqual({ ...testState, loading: true, attempt: 1 });
+        });
+
+        it('records the key of the params being loaded', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({ loading: false });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, {
+              type: 'testSlice/makeLoading',
+              payload: { key: '["value1","value2"]' },
+            })
+          ).toEqual({
+            ...testState,
+            loading: true,
+            attempt: 1,
+            key: '["value1","value2"]',
+          });
+        });
+      });
+
+      describe('startOptimistic', () => {
+        it('sets data and increments pending updates', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({ pendingUpdates: 1 });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, {
+              type: 'testSlice/startOptimistic',
+              payload: { data: ['test'] },
+            })
+          ).toEqual({ ...testState, data: ['test'], pendingUpdates: 2 });
+        });
+      });
+
+      describe('settleOptimistic', () => {
+        it('sets data and decrements pending updates', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({ pendingUpdates: 2 });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, {
+              type: 'testSlice/settleOptimistic',
+              payload: { data: ['test'] },
+            })
+          ).toEqual({ ...testState, data: ['test'], pendingUpdates: 1 });
+        });
+
+        it('leaves data alone if not provided', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({ pendingUpdates: 1 });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, {
+              type: 'testSlice/settleOptimistic',
+              payload: {},
+            })
+          ).toEqual({ ...testState, pendingUpdates: 0 });
+        });
+      });
+
+      describe('cancel', () => {
+        it('resets loading to false', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({ loading: true });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, { type: 'testSlice/cancel' })
+          ).toEqual({ ...testState, loading: false });
+        });
+      });
+
+      describe('retry', () => {
+        it('increments the attempt', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({ loading: true, attempt: 1 });
+          const testState = rootState.testSlice;
+          expect(slice.reducer(testState, { type: 'testSlice/retry' })).toEqual(
+            { ...testState, attempt: 2 }
+          );
         });
       });
 
@@ -250,104 +786,1278 @@ describe('createMonitoredSlice', () => {
             data: ['test'],
           });
         });
-      });
 
-      it('supports other reducers', () => {
-        const { slice } = buildTestSlice();
-        const rootState = buildRootState({ loading: true, stale: true });
-        const testState = rootState.testSlice;
-        expect(
-          slice.reducer(testState, {
-            type: 'testSlice/select',
-            payload: 'newId',
-          })
-        ).toEqual({ ...testState, selected: 'newId' });
+        it('clears any previous error', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({
+            loading: true,
+            error: { message: 'failed' },
+          });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, {
+              type: 'testSlice/fulfill',
+              payload: { data: ['test'] },
+            })
+          ).toEqual({
+            ...testState,
+            stale: false,
+            loading: false,
+            data: ['test'],
+            error: null,
+          });
+        });
+
+        it('records when the data was loaded', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({ loading: true });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, {
+              type: 'testSlice/fulfill',
+              payload: { data: ['test'], fetchedAt: 1234 },
+            })
+          ).toEqual({
+            ...testState,
+            stale: false,
+            loading: false,
+            data: ['test'],
+            fetchedAt: 1234,
+          });
+        });
+
+        it('keeps the existing data if the loaded data is deeply equal', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({ loading: true });
+          const testState = rootState.testSlice;
+          const nextState = slice.reducer(testState, {
+            type: 'testSlice/fulfill',
+            payload: { data: JSON.parse(JSON.stringify(testState.data)) },
+          });
+          expect(nextState.data).toBe(testState.data);
+        });
+
+        it('reuses unchanged items of the existing data', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({ loading: true });
+          const testState = rootState.testSlice;
+          const nextState = slice.reducer(testState, {
+            type: 'testSlice/fulfill',
+            payload: {
+              data: [
+                { id: 'id1', name: 'name1' },
+                { id: 'id2', name: 'changed' },
+              ],
+            },
+          });
+          expect(nextState.data).not.toBe(testState.data);
+          expect(nextState.data[0]).toBe(testState.data[0]);
+          expect(nextState.data[1]).toEqual({ id: 'id2', name: 'changed' });
+        });
+
+        it('replaces the data if structuralSharing is false', () => {
+          const { slice } = buildTestSlice({ structuralSharing: false });
+          const rootState = buildRootState({ loading: true });
+          const testState = rootState.testSlice;
+          const data = JSON.parse(JSON.stringify(testState.data));
+          const nextState = slice.reducer(testState, {
+            type: 'testSlice/fulfill',
+            payload: { data },
+          });
+          expect(nextState.data).toBe(data);
+        });
+
+        it('keeps the existing data based on isDataEqual', () => {
+          const isDataEqual = jest.fn(
+            (previous: ITestItem[], next: ITestItem[]) =>
+              previous.length === next.length
+          );
+          const { slice } = buildTestSlice({ isDataEqual });
+          const rootState = buildRootState({ loading: true });
+          const testState = rootState.testSlice;
+          const data = [{ id: 'id3', name: 'name3' }];
+          expect(
+            slice.reducer(testState, {
+              type: 'testSlice/fulfill',
+              payload: { data: [...data, ...data] },
+            }).data
+          ).toBe(testState.data);
+          expect(
+            slice.reducer(testState, {
+              type: 'testSlice/fulfill',
+              payload: { data },
+            }).data
+          ).toBe(data);
+          expect(isDataEqual).toBeCalledWith(testState.data, data);
+        });
+      });
+
+      describe('reject', () => {
+        it('sets error and resets stale and loading to false without changing data', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({ loading: true, stale: true });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, {
+              type: 'testSlice/reject',
+              payload: { error: { message: 'failed' } },
+            })
+          ).toEqual({
+            ...testState,
+            stale: false,
+            loading: false,
+            error: { message: 'failed' },
+          });
+        });
+      });
+
+      describe('addMonitor', () => {
+        it('increments the monitor count', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({ monitorCount: 1 });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, { type: 'testSlice/addMonitor' })
+          ).toEqual({ ...testState, monitorCount: 2 });
+        });
+      });
+
+      describe('removeMonitor', () => {
+        it('decrements the monitor count', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({ monitorCount: 2 });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, { type: 'testSlice/removeMonitor' })
+          ).toEqual({ ...testState, monitorCount: 1 });
+        });
+
+        it('does not decrement below zero', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({ monitorCount: 0 });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, { type: 'testSlice/removeMonitor' })
+          ).toEqual({ ...testState, monitorCount: 0 });
+        });
+      });
+
+      describe('onFocus', () => {
+        it('makes the slice stale while monitored if refetchOnFocus', () => {
+          const { slice } = buildTestSlice({ refetchOnFocus: true });
+          const rootState = buildRootState({ stale: false, monitorCount: 1 });
+          const testState = rootState.testSlice;
+          expect(slice.reducer(testState, onFocus())).toEqual({
+            ...testState,
+            stale: true,
+          });
+        });
+
+        it('ignores focus while not monitored', () => {
+          const { slice } = buildTestSlice({ refetchOnFocus: true });
+          const rootState = buildRootState({ stale: false, monitorCount: 0 });
+          const testState = rootState.testSlice;
+          expect(slice.reducer(testState, onFocus())).toBe(testState);
+        });
+
+        it('ignores focus without refetchOnFocus', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({ stale: false, monitorCount: 1 });
+          const testState = rootState.testSlice;
+          expect(slice.reducer(testState, onFocus())).toBe(testState);
+        });
+
+        it('ignores focus while already stale or loading', () => {
+          const { slice } = buildTestSlice({ refetchOnFocus: true });
+          const loadingState = buildRootState({
+            stale: false,
+            loading: true,
+            monitorCount: 1,
+          }).testSlice;
+          expect(slice.reducer(loadingState, onFocus())).toBe(loadingState);
+          const staleState = buildRootState({
+            stale: true,
+            monitorCount: 1,
+          }).testSlice;
+          expect(slice.reducer(staleState, onFocus())).toBe(staleState);
+        });
+      });
+
+      describe('onReconnect', () => {
+        it('makes the slice stale while monitored if refetchOnReconnect', () => {
+          const { slice } = buildTestSlice({ refetchOnReconnect: true });
+          const rootState = buildRootState({ stale: false, monitorCount: 1 });
+          const testState = rootState.testSlice;
+          expect(slice.reducer(testState, onReconnect())).toEqual({
+            ...testState,
+            stale: true,
+          });
+        });
+
+        it('ignores reconnects without refetchOnReconnect', () => {
+          const { slice } = buildTestSlice({ refetchOnFocus: true });
+          const rootState = buildRootState({ stale: false, monitorCount: 1 });
+          const testState = rootState.testSlice;
+          expect(slice.reducer(testState, onReconnect())).toBe(testState);
+        });
+      });
+
+      describe('invalidateTags', () => {
+        it('makes the slice stale when a provided tag matches', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({
+            stale: false,
+            fetchedAt: 1000,
+            providedTags: ['Item'],
+          });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(testState, invalidateTags([{ type: 'Item', id: 1 }]))
+          ).toEqual({ ...testState, stale: true });
+        });
+
+        it('ignores tags which are not provided', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({
+            stale: false,
+            fetchedAt: 1000,
+            providedTags: ['Item'],
+          });
+          const testState = rootState.testSlice;
+          expect(slice.reducer(testState, invalidateTags(['Other']))).toBe(
+            testState
+          );
+        });
+
+        it('ignores entries which never loaded', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({
+            stale: false,
+            providedTags: ['Item'],
+          });
+          const testState = rootState.testSlice;
+          expect(slice.reducer(testState, invalidateTags(['Item']))).toBe(
+            testState
+          );
+        });
+
+        it('only makes matching cached entries stale', () => {
+          const { slice } = buildTestSlice({ keyed: true });
+          const cachedEntry = {
+            stale: false,
+            loading: false,
+            data: DEFAULT_INITIAL_DATA,
+            error: null,
+            attempt: 1,
+            fetchedAt: 1000,
+            providedTags: [{ type: 'Item', id: 'b' }],
+          };
+          const rootState = buildRootState({
+            stale: false,
+            loading: true,
+            fetchedAt: 1000,
+            providedTags: [{ type: 'Item', id: 'a' }],
+            key: '"a"',
+            cache: {
+              '"b"': cachedEntry,
+              '"c"': {
+                ...cachedEntry,
+                providedTags: [{ type: 'Item', id: 'c' }],
+              },
+            },
+            cacheKeys: ['"b"', '"c"'],
+          });
+          const testState = rootState.testSlice;
+          expect(
+            slice.reducer(
+              testState,
+              invalidateTags([{ type: 'Item', id: 'b' }])
+            )
+          ).toEqual({
+            ...testState,
+            cache: {
+              ...testState.cache,
+              '"b"': { ...cachedEntry, stale: true },
+            },
+          });
+        });
+
+        it('supersedes the in-flight load when the current entry matches', () => {
+          const { slice } = buildTestSlice();
+          const rootState = buildRootState({
+            stale: false,
+            loading: true,
+            fetchedAt: 1000,
+            providedTags: ['Item'],
+          });
+          const testState = rootState.testSlice;
+          expect(slice.reducer(testState, invalidateTags(['Item']))).toEqual({
+            ...testState,
+            stale: true,
+            loading: false,
+          });
+        });
+      });
+
+      it('supports other reducers', () => {
+        const { slice } = buildTestSlice();
+        const rootState = buildRootState({ loading: true, stale: true });
+        const testState = rootState.testSlice;
+        expect(
+          slice.reducer(testState, {
+            type: 'testSlice/select',
+            payload: 'newId',
+          })
+        ).toEqual({ ...testState, selected: 'newId' });
+      });
+    });
+
+    it('initializes state as stale and not loading with initial data', () => {
+      const { slice } = buildTestSlice(undefined, undefined, {
+        selected: 'initial',
+      });
+      const store = configureStore({
+        reducer: {
+          testSlice: slice.reducer,
+        },
+      });
+      expect(store.getState()).toEqual({
+        testSlice: {
+          selected: 'initial',
+          stale: true,
+          loading: false,
+          data: DEFAULT_INITIAL_DATA,
+          error: null,
+          attempt: 0,
+          fetchedAt: null,
+          monitorCount: 0,
+          pendingUpdates: 0,
+          providedTags: [],
+          key: null,
+          cache: {},
+          cacheKeys: [],
+        },
+      });
+    });
+  });
+
+  describe('actions', () => {
+    const buildStore = (
+      loader = DEFAULT_LOADER,
+      loaderParamsSelector = null,
+      options = undefined
+    ) => {
+      const monitoredSlice = buildTestSlice(
+        options,
+        undefined,
+        undefined,
+        loader,
+        loaderParamsSelector
+      );
+      const store = configureStore({
+        reducer: {
+          testSlice: monitoredSlice.slice.reducer,
+          otherSlice: otherSlice.reducer,
+        },
+      });
+      return { ...monitoredSlice, store };
+    };
+
+    describe('load', () => {
+      it('loads stale data', async () => {
+        const loadedData = [{ id: 'id1', name: 'name1' }];
+        const loader = jest.fn().mockResolvedValue(loadedData);
+        const { actions, store } = buildStore(loader);
+        await store.dispatch(actions.load());
+        expect(store.getState().testSlice.data).toEqual(loadedData);
+        expect(loader).toBeCalledTimes(1);
+      });
+
+      it('does not reload data which is not stale', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const { actions, store } = buildStore(loader);
+        await store.dispatch(actions.load());
+        await store.dispatch(actions.load());
+        expect(loader).toBeCalledTimes(1);
+      });
+
+      it('does not load while disabled', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const { actions, store } = buildStore(loader, null, {
+          enabled: (state) => state.otherSlice.param1 === 'enabled',
+        });
+        await store.dispatch(actions.refetch());
+        expect(loader).not.toBeCalled();
+        store.dispatch(
+          otherSlice.actions.setParams({ param1: 'enabled', param2: null })
+        );
+        await store.dispatch(actions.load());
+        expect(loader).toBeCalledTimes(1);
+      });
+
+      it('reloads data when the params change', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const { actions, store } = buildStore(loader);
+        await store.dispatch(actions.load({ params: { id: 1 } }));
+        await store.dispatch(actions.load({ params: { id: 2 } }));
+        expect(loader).toBeCalledTimes(2);
+      });
+
+      it('does not reload data for params which only differ in key order', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const { actions, store } = buildStore(loader);
+        await store.dispatch(actions.load({ params: { id: 1, page: 2 } }));
+        await store.dispatch(actions.load({ params: { page: 2, id: 1 } }));
+        expect(loader).toBeCalledTimes(1);
+      });
+
+      it('compares params with paramsEqual', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const paramsEqual = (previous, next) => previous?.id === next?.id;
+        const { actions, store } = buildStore(loader, null, { paramsEqual });
+        await store.dispatch(
+          actions.load({ params: { id: 1, requestedAt: 1 } })
+        );
+        await store.dispatch(
+          actions.load({ params: { id: 1, requestedAt: 2 } })
+        );
+        expect(loader).toBeCalledTimes(1);
+        await store.dispatch(
+          actions.load({ params: { id: 2, requestedAt: 3 } })
+        );
+        expect(loader).toBeCalledTimes(2);
+      });
+
+      it('uses serializeParams for cache keys in keyed mode', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const serializeParams = (params) => `factory-${params}`;
+        const { actions, store } = buildStore(loader, null, {
+          keyed: true,
+          serializeParams,
+        });
+        await store.dispatch(actions.load({ params: 1 }));
+        await store.dispatch(actions.load({ params: 2 }));
+        expect(store.getState().testSlice.key).toEqual('factory-2');
+        expect(store.getState().testSlice.cacheKeys).toEqual(['factory-1']);
+      });
+
+      it('stores the tags provided by the loaded data and params', async () => {
+        const loadedData = [{ id: 'id1', name: 'name1' }];
+        const loader = jest.fn().mockResolvedValue(loadedData);
+        const providesTags = jest.fn((data: ITestItem[], params) =>
+          data.map((item) => ({ type: 'Item', id: `${params}-${item.id}` }))
+        );
+        const { actions, store } = buildStore(loader, null, { providesTags });
+        await store.dispatch(actions.load({ params: 'p' }));
+        expect(providesTags).toBeCalledWith(loadedData, 'p');
+        expect(store.getState().testSlice.providedTags).toEqual([
+          { type: 'Item', id: 'p-id1' },
+        ]);
+      });
+
+      it('keeps params out of the store state and actions', async () => {
+        const consoleError = jest
+          .spyOn(console, 'error')
+          .mockImplementation(() => undefined);
+        const loader = jest.fn().mockResolvedValue([]);
+        const { actions, store } = buildStore(loader);
+        const params = { since: new Date(0) };
+        await store.dispatch(actions.load({ params }));
+        expect(loader).toBeCalledWith(
+          params,
+          expect.any(AbortSignal),
+          DEFAULT_INITIAL_DATA
+        );
+        expect(store.getState().testSlice.key).toEqual(
+          '{"since":"1970-01-01T00:00:00.000Z"}'
+        );
+        expect(store.dispatch(actions.getLoadedParams())).toBe(params);
+        await store.dispatch(actions.load({ params: { since: new Date(0) } }));
+        expect(loader).toBeCalledTimes(1);
+        expect(consoleError).not.toBeCalled();
+        consoleError.mockRestore();
+      });
+    });
+
+    describe('refetch', () => {
+      it('reloads data which is not stale', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const { actions, store } = buildStore(loader);
+        await store.dispatch(actions.load());
+        await store.dispatch(actions.refetch());
+        expect(loader).toBeCalledTimes(2);
+      });
+
+      it('passes the current data to the loader', async () => {
+        const loadedData = [{ id: 'id1', name: 'name1' }];
+        const loader = jest.fn().mockResolvedValue(loadedData);
+        const { actions, store } = buildStore(loader);
+        await store.dispatch(actions.load());
+        await store.dispatch(actions.refetch());
+        expect(loader).lastCalledWith(
+          null,
+          expect.any(AbortSignal),
+          loadedData
+        );
+        await store.dispatch(actions.load({ params: 'other', force: true }));
+        expect(loader).lastCalledWith(
+          'other',
+          expect.any(AbortSignal),
+          DEFAULT_INITIAL_DATA
+        );
+      });
+    });
+
+    describe('makeStale', () => {
+      it('marks data as stale', async () => {
+        const { actions, selectors, store } = buildStore();
+        await store.dispatch(actions.load());
+        store.dispatch(actions.makeStale());
+        expect(selectors.selectStale(store.getState())).toBeTruthy();
+      });
+
+      it('aborts the in-flight load it supersedes', async () => {
+        let signal: AbortSignal;
+        const loader = jest.fn().mockImplementation((_params, loaderSignal) => {
+          signal = loaderSignal;
+          return new Promise(() => undefined);
+        });
+        const { actions, selectors, store } = buildStore(loader);
+        store.dispatch(actions.load());
+        expect(signal.aborted).toBeFalsy();
+        store.dispatch(actions.makeStale());
+        expect(signal.aborted).toBeTruthy();
+        expect(selectors.selectLoading(store.getState())).toBeFalsy();
+      });
+
+      it('loads again once the superseded load is aborted', async () => {
+        const loadedData = [{ id: 'id1', name: 'name1' }];
+        const loader = jest
+          .fn()
+          .mockReturnValueOnce(new Promise(() => undefined))
+          .mockResolvedValue(loadedData);
+        const { actions, selectors, store } = buildStore(loader);
+        store.dispatch(actions.load());
+        store.dispatch(actions.makeStale());
+        await store.dispatch(actions.load());
+        expect(selectors.selectData(store.getState())).toEqual(loadedData);
+        expect(loader).toBeCalledTimes(2);
+      });
+    });
+
+    describe('ensureLoaded', () => {
+      it('resolves with the loaded data', async () => {
+        const loadedData = [{ id: 'id1', name: 'name1' }];
+        const loader = jest.fn().mockResolvedValue(loadedData);
+        const { actions, store } = buildStore(loader, selectParams);
+        const data = await store.dispatch(actions.ensureLoaded());
+        expect(data).toEqual(loadedData);
+        expect(loader).toBeCalledWith(
+          ['value1', 'value2'],
+          expect.any(AbortSignal),
+          DEFAULT_INITIAL_DATA
+        );
+      });
+
+      it('resolves with existing data without reloading', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const { actions, store } = buildStore(loader);
+        await store.dispatch(actions.ensureLoaded());
+        const data = await store.dispatch(actions.ensureLoaded());
+        expect(data).toEqual([]);
+        expect(loader).toBeCalledTimes(1);
+      });
+
+      it('waits for an in-flight load', async () => {
+        const loadedData = [{ id: 'id1', name: 'name1' }];
+        const loader = jest.fn().mockResolvedValue(loadedData);
+        const { actions, store } = buildStore(loader);
+        store.dispatch(actions.load());
+        const data = await store.dispatch(actions.ensureLoaded());
+        expect(data).toEqual(loadedData);
+        expect(loader).toBeCalledTimes(1);
+      });
+
+      it('supports overriding the loader params', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const { actions, store } = buildStore(loader, selectParams);
+        await store.dispatch(actions.ensureLoaded(['override1', 'override2']));
+        expect(loader).toBeCalledWith(
+          ['override1', 'override2'],
+          expect.any(AbortSignal),
+          DEFAULT_INITIAL_DATA
+        );
+      });
+
+      it('rejects with the load error', async () => {
+        const loader = jest.fn().mockRejectedValue(new Error('failed'));
+        const { actions, store } = buildStore(loader);
+        await expect(store.dispatch(actions.ensureLoaded())).rejects.toEqual(
+          expect.objectContaining({ message: 'failed' })
+        );
+      });
+
+      it('reloads data which failed to load rather than rejecting with the earlier error', async () => {
+        const loadedData = [{ id: 'id1', name: 'name1' }];
+        const loader = jest
+          .fn()
+          .mockRejectedValueOnce(new Error('failed'))
+          .mockResolvedValue(loadedData);
+        const { actions, store } = buildStore(loader);
+        await expect(store.dispatch(actions.ensureLoaded())).rejects.toEqual(
+          expect.objectContaining({ message: 'failed' })
+        );
+        expect(await store.dispatch(actions.ensureLoaded())).toEqual(
+          loadedData
+        );
+        expect(loader).toBeCalledTimes(2);
+      });
+
+      it.each([false, true])(
+        'rejects if a load of other params supersedes it (keyed: %s)',
+        async (keyed) => {
+          const loader = jest
+            .fn()
+            .mockImplementation(async (params) => [
+              { id: 'id1', name: `data-${params}` },
+            ]);
+          const { actions, selectors, store } = buildStore(loader, null, {
+            keyed,
+          });
+          const dataPromise = store.dispatch(actions.ensureLoaded('X'));
+          store.dispatch(actions.load({ params: 'Y' }));
+          await expect(dataPromise).rejects.toEqual(
+            expect.objectContaining({
+              message: 'Superseded by a load of other params',
+            })
+          );
+          expect(selectors.selectData(store.getState())).toEqual([
+            { id: 'id1', name: 'data-Y' },
+          ]);
+        }
+      );
+
+      it('rejects while loading is disabled', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const { actions, store } = buildStore(loader, null, {
+          enabled: () => false,
+        });
+        await expect(store.dispatch(actions.ensureLoaded())).rejects.toEqual(
+          expect.objectContaining({ message: 'Loading is disabled' })
+        );
+        expect(loader).not.toBeCalled();
+      });
+
+      it('loads again if the load is made stale without being reloaded', async () => {
+        const loadedData = [{ id: 'id1', name: 'name1' }];
+        let resolveFirst: (data: ITestItem[]) => void;
+        const loader = jest
+          .fn()
+          .mockReturnValueOnce(
+            new Promise((resolve) => {
+              resolveFirst = resolve;
+            })
+          )
+          .mockResolvedValue(loadedData);
+        const { actions, slice, store } = buildStore(loader);
+        const dataPromise = store.dispatch(actions.ensureLoaded());
+        store.dispatch(slice.actions.makeStale(null));
+        resolveFirst([]);
+        expect(await dataPromise).toEqual(loadedData);
+        expect(loader).toBeCalledTimes(2);
+      });
+    });
+
+    describe('optimisticUpdate', () => {
+      const loadedData = [{ id: 'id1', name: 'name1' }];
+      const rename = (draft: ITestItem[]) => {
+        draft[0].name = 'renamed';
+      };
+
+      const buildLoadedStore = async () => {
+        const loader = jest.fn().mockResolvedValue(loadedData);
+        const built = buildStore(loader);
+        await built.store.dispatch(built.actions.load());
+        return { ...built, loader };
+      };
+
+      it('applies the recipe immediately and keeps it once the mutation resolves', async () => {
+        const { actions, store } = await buildLoadedStore();
+        let resolveMutation: (value: string) => void;
+        const mutation = new Promise<string>((resolve) => {
+          resolveMutation = resolve;
+        });
+        const updatePromise = store.dispatch(
+          actions.optimisticUpdate(rename, mutation)
+        );
+        expect(store.getState().testSlice.data).toEqual([
+          { id: 'id1', name: 'renamed' },
+        ]);
+        expect(store.getState().testSlice.pendingUpdates).toEqual(1);
+        resolveMutation('result');
+        await expect(updatePromise).resolves.toEqual('result');
+        expect(store.getState().testSlice.data).toEqual([
+          { id: 'id1', name: 'renamed' },
+        ]);
+        expect(store.getState().testSlice.pendingUpdates).toEqual(0);
+      });
+
+      it('supports replacing data with the mutation result', async () => {
+        const { actions, store } = await buildLoadedStore();
+        const serverData = [{ id: 'id1', name: 'server' }];
+        await store.dispatch(
+          actions.optimisticUpdate(rename, Promise.resolve(serverData), {
+            replaceWithResult: true,
+          })
+        );
+        expect(store.getState().testSlice.data).toEqual(serverData);
+      });
+
+      it('rolls back if the mutation rejects', async () => {
+        const { actions, store } = await buildLoadedStore();
+        await expect(
+          store.dispatch(
+            actions.optimisticUpdate(
+              rename,
+              Promise.reject(new Error('failed'))
+            )
+          )
+        ).rejects.toEqual(new Error('failed'));
+        expect(store.getState().testSlice.data).toEqual(loadedData);
+        expect(store.getState().testSlice.pendingUpdates).toEqual(0);
+      });
+
+      it('keeps pending updates applied on top of data loaded in the middle of the mutation', async () => {
+        const { actions, store, loader } = await buildLoadedStore();
+        let rejectMutation: (err: Error) => void;
+        const mutation = new Promise<void>((_resolve, reject) => {
+          rejectMutation = reject;
+        });
+        const updatePromise = store.dispatch(
+          actions.optimisticUpdate(rename, mutation)
+        );
+        loader.mockResolvedValue([
+          { id: 'id1', name: 'name1' },
+          { id: 'id2', name: 'name2' },
+        ]);
+        await store.dispatch(actions.refetch());
+        expect(store.getState().testSlice.data).toEqual([
+          { id: 'id1', name: 'renamed' },
+          { id: 'id2', name: 'name2' },
+        ]);
+        rejectMutation(new Error('failed'));
+        await expect(updatePromise).rejects.toEqual(new Error('failed'));
+        expect(store.getState().testSlice.data).toEqual([
+          { id: 'id1', name: 'name1' },
+          { id: 'id2', name: 'name2' },
+        ]);
+      });
+    });
+  });
+
+  describe('hooks', () => {
+    describe('useMonitoredData', () => {
+      let renderedStore;
+      const renderMonitoredHook = (
+        loader = DEFAULT_LOADER,
+        loaderParamsSelector = null,
+        options = undefined,
+        hookOptions = undefined
+      ) => {
+        const { slice, hooks } = buildTestSlice(
+          options,
+          undefined,
+          undefined,
+          loader,
+          loaderParamsSelector
+        );
+        renderedStore = configureStore({
+          reducer: {
+            testSlice: slice.reducer,
+            otherSlice: otherSlice.reducer,
+          },
+        });
+        const rendered = renderHook((props) => hooks.useMonitoredData(props), {
+          initialProps: hookOptions,
+          wrapper: ({ children }) => (
+            <Provider store={renderedStore}>{children}</Provider>
+          ),
+        });
+        return rendered;
+      };
+
+      const sleep = (ms: number) =>
+        new Promise((resolve) => setTimeout(resolve, ms));
+
+      it('sets loading and returns initial data', () => {
+        const rendered = renderMonitoredHook();
+        const results = rendered.result.current;
+        expect(results.loading).toBeTruthy();
+        expect(results.data).toEqual(DEFAULT_INITIAL_DATA);
+      });
+
+      it('loads and returns new data', async () => {
+        const loadedData = [
+          { id: 'id1', name: 'name1' },
+          { id: 'id2', name: 'name2' },
+        ];
+        const loader = jest.fn().mockResolvedValue(loadedData);
+        const rendered = renderMonitoredHook(loader);
+        await waitFor(() =>
+          expect(rendered.result.current.loading).toBeFalsy()
+        );
+        expect(rendered.result.current.data).toEqual(loadedData);
+      });
+
+      it('projects data with a selector', async () => {
+        const loadedData = [
+          { id: 'id1', name: 'name1' },
+          { id: 'id2', name: 'name2' },
+        ];
+        const { slice, hooks } = buildTestSlice(
+          undefined,
+          undefined,
+          undefined,
+          jest.fn().mockResolvedValue(loadedData)
+        );
+        renderedStore = configureStore({
+          reducer: {
+            testSlice: slice.reducer,
+            otherSlice: otherSlice.reducer,
+          },
+        });
+        const rendered = renderHook(
+          () => hooks.useMonitoredData((data) => data.map((item) => item.id)),
+          {
+            wrapper: ({ children }) => (
+              <Provider store={renderedStore}>{children}</Provider>
+            ),
+          }
+        );
+        expect(rendered.result.current.data).toEqual(['initialId']);
+        await waitFor(() =>
+          expect(rendered.result.current.loading).toBeFalsy()
+        );
+        expect(rendered.result.current.data).toEqual(['id1', 'id2']);
+        expect(renderedStore.getState().testSlice.monitorCount).toEqual(1);
+      });
+
+      it('keeps projected data stable based on the equality function', async () => {
+        const loader = jest
+          .fn()
+          .mockResolvedValueOnce([{ id: 'id1', name: 'name1' }])
+          .mockResolvedValueOnce([{ id: 'id1', name: 'name1' }]);
+        const { slice, hooks } = buildTestSlice(
+          undefined,
+          undefined,
+          undefined,
+          loader
+        );
+        renderedStore = configureStore({
+          reducer: {
+            testSlice: slice.reducer,
+            otherSlice: otherSlice.reducer,
+          },
+        });
+        const rendered = renderHook(
+          () =>
+            hooks.useMonitoredData(
+              (data) => data.map((item) => item.id),
+              (left, right) => left.join() === right.join()
+            ),
+          {
+            wrapper: ({ children }) => (
+              <Provider store={renderedStore}>{children}</Provider>
+            ),
+          }
+        );
+        await waitFor(() =>
+          expect(rendered.result.current.status).toEqual('success')
+        );
+        const projected = rendered.result.current.data;
+        act(() => rendered.result.current.refetch());
+        await waitFor(() => expect(loader).toBeCalledTimes(2));
+        await waitFor(() =>
+          expect(rendered.result.current.status).toEqual('success')
+        );
+        expect(rendered.result.current.data).toBe(projected);
+      });
+
+      it('stays idle while disabled by the hook', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const rendered = renderMonitoredHook(loader, null, undefined, {
+          enabled: false,
+        });
+        await sleep(20);
+        expect(loader).not.toBeCalled();
+        expect(rendered.result.current).toEqual(
+          expect.objectContaining({
+            loading: false,
+            isInitialLoading: false,
+            status: 'idle',
+            data: DEFAULT_INITIAL_DATA,
+          })
+        );
+        rendered.rerender({ enabled: true });
+        await waitFor(() =>
+          expect(rendered.result.current.status).toEqual('success')
+        );
+        expect(loader).toBeCalledTimes(1);
+      });
+
+      it('resumes loading once the enabled selector returns true', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const rendered = renderMonitoredHook(loader, selectParams, {
+          enabled: (state) => state.otherSlice.param1 === 'value3',
+        });
+        await sleep(20);
+        expect(rendered.result.current.status).toEqual('idle');
+        expect(loader).not.toBeCalled();
+        act(() => {
+          renderedStore.dispatch(
+            otherSlice.actions.setParams({ param1: 'value3', param2: 'value4' })
+          );
+        });
+        await waitFor(() =>
+          expect(rendered.result.current.status).toEqual('success')
+        );
+        expect(loader).toBeCalledTimes(1);
+        expect(loader).toBeCalledWith(
+          ['value3', 'value4'],
+          expect.any(AbortSignal),
+          DEFAULT_INITIAL_DATA
+        );
+      });
+
+      it('distinguishes refreshing from initial loading', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const rendered = renderMonitoredHook(loader);
+        expect(rendered.result.current).toEqual(
+          expect.objectContaining({
+            isInitialLoading: true,
+            hasData: false,
+            status: 'loading',
+          })
+        );
+        await waitFor(() =>
+          expect(rendered.result.current.status).toEqual('success')
+        );
+        expect(rendered.result.current.hasData).toEqual(true);
+        act(() => rendered.result.current.makeStale());
+        expect(rendered.result.current).toEqual(
+          expect.objectContaining({
+            loading: true,
+            isInitialLoading: false,
+            hasData: true,
+            status: 'refreshing',
+          })
+        );
+        await waitFor(() =>
+          expect(rendered.result.current.status).toEqual('success')
+        );
+      });
+
+      it('supports marking data as stale to reload', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const rendered = renderMonitoredHook(loader);
+        await waitFor(() =>
+          expect(rendered.result.current.loading).toBeFalsy()
+        );
+        const loadedData = [
+          { id: 'id1', name: 'name1' },
+          { id: 'id2', name: 'name2' },
+        ];
+        loader.mockResolvedValue(loadedData);
+        rendered.result.current.makeStale();
+        await waitFor(() =>
+          expect(rendered.result.current.data).toEqual(loadedData)
+        );
+      });
+
+      it('returns error if loader rejects', async () => {
+        const loader = jest.fn().mockRejectedValue(new Error('failed'));
+        const rendered = renderMonitoredHook(loader);
+        await waitFor(() =>
+          expect(rendered.result.current.loading).toBeFalsy()
+        );
+        expect(rendered.result.current.error).toEqual(
+          expect.objectContaining({ message: 'failed' })
+        );
+        expect(rendered.result.current.data).toEqual(DEFAULT_INITIAL_DATA);
+        expect(loader).toBeCalledTimes(1);
+      });
+
+      it('supports marking data as stale to retry after an error', async () => {
+        const loader = jest.fn().mockRejectedValue(new Error('failed'));
+        const rendered = renderMonitoredHook(loader);
+        await waitFor(() =>
+          expect(rendered.result.current.error).not.toBeNull()
+        );
+        const loadedData = [{ id: 'id1', name: 'name1' }];
+        loader.mockResolvedValue(loadedData);
+        rendered.result.current.makeStale();
+        await waitFor(() =>
+          expect(rendered.result.current.data).toEqual(loadedData)
+        );
+        expect(rendered.result.current.error).toBeNull();
+      });
+
+      it('retries failed loads up to max attempts', async () => {
+        const loadedData = [{ id: 'id1', name: 'name1' }];
+        const loader = jest
+          .fn()
+          .mockRejectedValueOnce(new Error('failed'))
+          .mockRejectedValueOnce(new Error('failed'))
+          .mockResolvedValue(loadedData);
+        const rendered = renderMonitoredHook(loader, null, {
+          retry: { maxAttempts: 3, retryDelay: 1 },
+        });
+        await waitFor(() =>
+          expect(rendered.result.current.data).toEqual(loadedData)
+        );
+        expect(loader).toBeCalledTimes(3);
+        expect(rendered.result.current.attempt).toEqual(3);
+        expect(rendered.result.current.maxAttempts).toEqual(3);
+        expect(rendered.result.current.error).toBeNull();
+      });
+
+      it('stores the error once max attempts are exhausted', async () => {
+        const loader = jest.fn().mockRejectedValue(new Error('failed'));
+        const rendered = renderMonitoredHook(loader, null, {
+          retry: { maxAttempts: 2, retryDelay: 1 },
+        });
+        await waitFor(() =>
+          expect(rendered.result.current.error).not.toBeNull()
+        );
+        expect(loader).toBeCalledTimes(2);
+        expect(rendered.result.current.attempt).toEqual(2);
+      });
+
+      it('does not retry errors rejected by shouldRetry', async () => {
+        const loader = jest.fn().mockRejectedValue(new Error('fatal'));
+        const shouldRetry = jest.fn().mockReturnValue(false);
+        const rendered = renderMonitoredHook(loader, null, {
+          retry: { maxAttempts: 3, retryDelay: 1, shouldRetry },
+        });
+        await waitFor(() =>
+          expect(rendered.result.current.error).not.toBeNull()
+        );
+        expect(loader).toBeCalledTimes(1);
+        expect(shouldRetry).toBeCalledWith(new Error('fatal'), 1);
+      });
+
+      it('reloads data once it is older than staleTime', async () => {
+        let currentTime = 0;
+        const loader = jest.fn().mockResolvedValue([]);
+        const rendered = renderMonitoredHook(loader, null, {
+          staleTime: 60000,
+          now: () => currentTime,
+        });
+        await waitFor(() =>
+          expect(rendered.result.current.loading).toBeFalsy()
+        );
+        expect(loader).toBeCalledTimes(1);
+        const loadedData = [{ id: 'id1', name: 'name1' }];
+        loader.mockResolvedValue(loadedData);
+        rendered.rerender({ enabled: false });
+        currentTime = 60000;
+        // Data which expired in the meantime is reloaded once the monitor is enabled again
+        rendered.rerender({ enabled: true });
+        await waitFor(() =>
+          expect(rendered.result.current.data).toEqual(loadedData)
+        );
+        expect(loader).toBeCalledTimes(2);
+      });
+
+      it('does not keep reloading expired data when the reload fails', async () => {
+        let currentTime = 0;
+        const loader = jest.fn().mockResolvedValue([]);
+        const rendered = renderMonitoredHook(loader, null, {
+          staleTime: 1000,
+          now: () => currentTime,
+        });
+        await waitFor(() =>
+          expect(rendered.result.current.loading).toBeFalsy()
+        );
+        loader.mockRejectedValue(new Error('failed'));
+        rendered.rerender({ enabled: false });
+        currentTime = 1000;
+        rendered.rerender({ enabled: true });
+        await waitFor(() =>
+          expect(rendered.result.current.status).toEqual('error')
+        );
+        await act(() => sleep(200));
+        expect(loader).toBeCalledTimes(2);
+        expect(rendered.result.current.isStale).toBeTruthy();
+        expect(rendered.result.current.loading).toBeFalsy();
+        expect(rendered.result.current.error.message).toEqual('failed');
+      });
+
+      it('does not keep reloading data which expires as soon as it loads', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const rendered = renderMonitoredHook(loader, null, { staleTime: 0 });
+        await waitFor(() =>
+          expect(rendered.result.current.isFetching).toBeFalsy()
+        );
+        await act(() => sleep(200));
+        expect(loader).toBeCalledTimes(1);
+        expect(rendered.result.current.isStale).toBeTruthy();
+        expect(rendered.result.current.status).toEqual('success');
       });
-    });
 
-    it('initializes state as stale and not loading with initial data', () => {
-      const { slice } = buildTestSlice(undefined, undefined, {
-        selected: 'initial',
-      });
-      const store = configureStore({
-        reducer: {
-          testSlice: slice.reducer,
-        },
+      it('marks data as stale once it expires while monitored', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const rendered = renderMonitoredHook(loader, null, { staleTime: 50 });
+        await waitFor(() => expect(loader).toBeCalledTimes(1));
+        await waitFor(() =>
+          expect(loader.mock.calls.length).toBeGreaterThanOrEqual(2)
+        );
+        rendered.unmount();
       });
-      expect(store.getState()).toEqual({
-        testSlice: {
-          selected: 'initial',
-          stale: true,
-          loading: false,
-          data: DEFAULT_INITIAL_DATA,
-        },
+
+      it('counts mounted monitors per store', () => {
+        const { slice, hooks } = buildTestSlice();
+        const buildStore = () =>
+          configureStore({
+            reducer: {
+              testSlice: slice.reducer,
+              otherSlice: otherSlice.reducer,
+            },
+          });
+        const store1 = buildStore();
+        const store2 = buildStore();
+        const renderInStore = (store) =>
+          renderHook(() => hooks.useMonitoredData(), {
+            wrapper: ({ children }) => (
+              <Provider store={store}>{children}</Provider>
+            ),
+          });
+        const rendered1 = renderInStore(store1);
+        const rendered2 = renderInStore(store1);
+        const rendered3 = renderInStore(store2);
+        expect(store1.getState().testSlice.monitorCount).toEqual(2);
+        expect(store2.getState().testSlice.monitorCount).toEqual(1);
+        rendered1.unmount();
+        expect(store1.getState().testSlice.monitorCount).toEqual(1);
+        rendered2.unmount();
+        rendered3.unmount();
+        expect(store1.getState().testSlice.monitorCount).toEqual(0);
+        expect(store2.getState().testSlice.monitorCount).toEqual(0);
       });
-    });
-  });
 
-  describe('hooks', () => {
-    describe('useMonitoredData', () => {
-      let renderedStore;
-      const renderMonitoredHook = (
-        loader = DEFAULT_LOADER,
-        loaderParamsSelector = null
-      ) => {
+      it('tracks loaded params per store', async () => {
+        const loader = jest.fn().mockImplementation((params) => {
+          return Promise.resolve([{ id: params[0], name: params[1] }]);
+        });
         const { slice, hooks } = buildTestSlice(
           undefined,
           undefined,
           undefined,
           loader,
-          loaderParamsSelector
+          selectParams
         );
-        renderedStore = configureStore({
-          reducer: {
-            testSlice: slice.reducer,
-            otherSlice: otherSlice.reducer,
-          },
-        });
-        const rendered = renderHook(() => hooks.useMonitoredData(), {
-          wrapper: ({ children }) => (
-            <Provider store={renderedStore}>{children}</Provider>
-          ),
-        });
-        return rendered;
-      };
+        const buildStore = () =>
+          configureStore({
+            reducer: {
+              testSlice: slice.reducer,
+              otherSlice: otherSlice.reducer,
+            },
+          });
+        const store1 = buildStore();
+        const store2 = buildStore();
+        store2.dispatch(
+          otherSlice.actions.setParams({ param1: 'value3', param2: 'value4' })
+        );
+        const renderInStore = (store) =>
+          renderHook(() => hooks.useMonitoredData(), {
+            wrapper: ({ children }) => (
+              <Provider store={store}>{children}</Provider>
+            ),
+          });
+        const rendered1 = renderInStore(store1);
+        const rendered2 = renderInStore(store2);
+        await waitFor(() =>
+          expect(rendered1.result.current.data).toEqual([
+            { id: 'value1', name: 'value2' },
+          ])
+        );
+        await waitFor(() =>
+          expect(rendered2.result.current.data).toEqual([
+            { id: 'value3', name: 'value4' },
+          ])
+        );
+        expect(loader).toBeCalledTimes(2);
+      });
 
-      it('sets loading and returns initial data', () => {
-        const rendered = renderMonitoredHook();
-        const results = rendered.result.current;
-        expect(results.loading).toBeTruthy();
-        expect(results.data).toEqual(DEFAULT_INITIAL_DATA);
+      it('polls while monitored and stops once unmounted', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const rendered = renderMonitoredHook(loader, null, {
+          pollInterval: 20,
+        });
+        await waitFor(() =>
+          expect(loader.mock.calls.length).toBeGreaterThanOrEqual(3)
+        );
+        rendered.unmount();
+        const callCount = loader.mock.calls.length;
+        await sleep(60);
+        expect(loader).toBeCalledTimes(callCount);
       });
 
-      it('loads and returns new data', async () => {
-        const loadedData = [
-          { id: 'id1', name: 'name1' },
-          { id: 'id2', name: 'name2' },
-        ];
-        const loader = jest.fn().mockResolvedValue(loadedData);
-        const rendered = renderMonitoredHook(loader);
+      it('supports overriding the poll interval per hook', async () => {
+        const loader = jest.fn().mockResolvedValue([]);
+        const rendered = renderMonitoredHook(loader, null, undefined, {
+          pollInterval: 20,
+        });
         await waitFor(() =>
-          expect(rendered.result.current.loading).toBeFalsy()
+          expect(loader.mock.calls.length).toBeGreaterThanOrEqual(3)
         );
-        expect(rendered.result.current.data).toEqual(loadedData);
+        rendered.unmount();
       });
 
-      it('supports marking data as stale to reload', async () => {
+      it('shares one poll timer between monitors using the shortest interval', async () => {
+        const setIntervalSpy = jest.spyOn(window, 'setInterval');
+        try {
+          const { slice, hooks } = buildTestSlice({ pollInterval: 1000 });
+          const store = configureStore({
+            reducer: {
+              testSlice: slice.reducer,
+              otherSlice: otherSlice.reducer,
+            },
+          });
+          const rendered = renderHook(
+            () => {
+              hooks.useMonitoredData();
+              hooks.useMonitoredData();
+              hooks.useMonitoredData({ pollInterval: 500 });
+            },
+            {
+              wrapper: ({ children }) => (
+                <Provider store={store}>{children}</Provider>
+              ),
+            }
+          );
+          expect(setIntervalSpy.mock.calls.map((call) => call[1])).toEqual([
+            1000, 500,
+          ]);
+          rendered.unmount();
+        } finally {
+          setIntervalSpy.mockRestore();
+        }
+      });
+
+      it('supports refetching data which is not stale', async () => {
         const loader = jest.fn().mockResolvedValue([]);
         const rendered = renderMonitoredHook(loader);
         await waitFor(() =>
           expect(rendered.result.current.loading).toBeFalsy()
         );
-        const loadedData = [
-          { id: 'id1', name: 'name1' },
-          { id: 'id2', name: 'name2' },
-        ];
+        const loadedData = [{ id: 'id1', name: 'name1' }];
         loader.mockResolvedValue(loadedData);
-        rendered.result.current.makeStale();
+        rendered.result.current.refetch();
         await waitFor(() =>
           expect(rendered.result.current.data).toEqual(loadedData)
         );
+        expect(loader).toBeCalledTimes(2);
       });
 
       it('passes null for params if no loader params selector configured', async () => {
@@ -356,7 +2066,11 @@ describe('createMonitoredSlice', () => {
         await waitFor(() =>
           expect(rendered.result.current.loading).toBeFalsy()
         );
-        expect(loader).toBeCalledWith(null);
+        expect(loader).toBeCalledWith(
+          null,
+          expect.any(AbortSignal),
+          DEFAULT_INITIAL_DATA
+        );
       });
 
       it('passes params if loader params selector configured', async () => {
@@ -365,7 +2079,11 @@ describe('createMonitoredSlice', () => {
         await waitFor(() =>
           expect(rendered.result.current.loading).toBeFalsy()
         );
-        expect(loader).toBeCalledWith(['value1', 'value2']);
+        expect(loader).toBeCalledWith(
+          ['value1', 'value2'],
+          expect.any(AbortSignal),
+          DEFAULT_INITIAL_DATA
+        );
       });
 
       it('automatically reloads data if params change', async () => {
@@ -378,7 +2096,11 @@ describe('createMonitoredSlice', () => {
             { id: 'value1', name: 'value2' },
           ])
         );
-        expect(loader).toBeCalledWith(['value1', 'value2']);
+        expect(loader).toBeCalledWith(
+          ['value1', 'value2'],
+          expect.any(AbortSignal),
+          DEFAULT_INITIAL_DATA
+        );
         jest.clearAllMocks();
         renderedStore.dispatch(
           otherSlice.actions.setParams({ param1: 'value3', param2: 'value4' })
@@ -388,7 +2110,106 @@ describe('createMonitoredSlice', () => {
             { id: 'value3', name: 'value4' },
           ])
         );
-        expect(loader).toBeCalledWith(['value3', 'value4']);
+        expect(loader).toBeCalledWith(
+          ['value3', 'value4'],
+          expect.any(AbortSignal),
+          DEFAULT_INITIAL_DATA
+        );
+      });
+
+      it('restores cached data without reloading when switching back to previous params in keyed mode', async () => {
+        const loader = jest.fn().mockImplementation((params) => {
+          return Promise.resolve([{ id: params[0], name: params[1] }]);
+        });
+        const rendered = renderMonitoredHook(loader, selectParams, {
+          keyed: true,
+        });
+        await waitFor(() =>
+          expect(rendered.result.current.data).toEqual([
+            { id: 'value1', name: 'value2' },
+          ])
+        );
+        renderedStore.dispatch(
+          otherSlice.actions.setParams({ param1: 'value3', param2: 'value4' })
+        );
+        await waitFor(() =>
+          expect(rendered.result.current.data).toEqual([
+            { id: 'value3', name: 'value4' },
+          ])
+        );
+        expect(loader).toBeCalledTimes(2);
+        renderedStore.dispatch(
+          otherSlice.actions.setParams({ param1: 'value1', param2: 'value2' })
+        );
+        await waitFor(() =>
+          expect(rendered.result.current.data).toEqual([
+            { id: 'value1', name: 'value2' },
+          ])
+        );
+        expect(rendered.result.current.loading).toBeFalsy();
+        expect(loader).toBeCalledTimes(2);
+      });
+
+      it('aborts the in-flight request if params change', async () => {
+        const signals: AbortSignal[] = [];
+        const loader = jest.fn().mockImplementation((params, signal) => {
+          signals.push(signal);
+          // Only the superseding request resolves
+          return signals.length === 1
+            ? new Promise(() => undefined)
+            : Promise.resolve([{ id: params[0], name: params[1] }]);
+        });
+        const rendered = renderMonitoredHook(loader, selectParams);
+        await waitFor(() => expect(loader).toBeCalledTimes(1));
+        renderedStore.dispatch(
+          otherSlice.actions.setParams({ param1: 'value3', param2: 'value4' })
+        );
+        await waitFor(() =>
+          expect(rendered.result.current.data).toEqual([
+            { id: 'value3', name: 'value4' },
+          ])
+        );
+        expect(signals[0].aborted).toBeTruthy();
+        expect(signals[1].aborted).toBeFalsy();
+      });
+
+      it('supersedes the in-flight request if marked as stale', async () => {
+        const signals: AbortSignal[] = [];
+        const loader = jest.fn().mockImplementation((_params, signal) => {
+          signals.push(signal);
+          const data = [{ id: `id${signals.length}`, name: 'name' }];
+          // Only the superseding request resolves
+          return signals.length === 1
+            ? new Promise(() => undefined)
+            : Promise.resolve(data);
+        });
+        const rendered = renderMonitoredHook(loader);
+        await waitFor(() => expect(loader).toBeCalledTimes(1));
+        rendered.result.current.makeStale();
+        await waitFor(() =>
+          expect(rendered.result.current.loading).toBeFalsy()
+        );
+        expect(loader).toBeCalledTimes(2);
+        expect(signals[0].aborted).toBeTruthy();
+        expect(rendered.result.current.data).toEqual([
+          { id: 'id2', name: 'name' },
+        ]);
+      });
+
+      it('aborts the in-flight request once the last monitor unmounts', async () => {
+        let signal: AbortSignal;
+        const loader = jest.fn().mockImplementation((_params, loaderSignal) => {
+          signal = loaderSignal;
+          return new Promise(() => undefined);
+        });
+        const rendered = renderMonitoredHook(loader);
+        await waitFor(() => expect(loader).toBeCalledTimes(1));
+        expect(signal.aborted).toBeFalsy();
+        rendered.unmount();
+        expect(signal.aborted).toBeTruthy();
+        expect(renderedStore.getState().testSlice).toEqual(
+          expect.objectContaining({ stale: true, loading: false })
+        );
       });
 
       it('only stores loaded data if params still match', async () => {
@@ -417,6 +2238,157 @@ describe('createMonitoredSlice', () => {
         );
       });
     });
+
+    describe('useMonitoredDataSuspense', () => {
+      class ErrorBoundary extends React.Component<
+        { children: React.ReactNode },
+        { error: SerializedError | null }
+      > {
+        state = { error: null };
+
+        static getDerivedStateFromError(error: SerializedError) {
+          return { error };
+        }
+
+        render() {
+          return this.state.error
+            ? `error: ${this.state.error.message}`
+            : this.props.children;
+        }
+      }
+
+      const renderSuspenseHook = (
+        loader = DEFAULT_LOADER,
+        loaderParamsSelector = null
+      ) => {
+        const { slice, hooks } = buildTestSlice(
+          undefined,
+          undefined,
+          undefined,
+          loader,
+          loaderParamsSelector
+        );
+        const store = configureStore({
+          reducer: {
+            testSlice: slice.reducer,
+            otherSlice: otherSlice.reducer,
+          },
+        });
+        const TestComponent = () => {
+          const { data } = hooks.useMonitoredDataSuspense();
+          return <>{data.map((item) => item.name).join(',')}</>;
+        };
+        const rendered = render(
+          <Provider store={store}>
+            <ErrorBoundary>
+              <React.Suspense fallback="loading">
+                <TestComponent />
+              </React.Suspense>
+            </ErrorBoundary>
+          </Provider>
+        );
+        return { ...rendered, store };
+      };
+
+      it('suspends until data is loaded', async () => {
+        const loader = jest.fn().mockResolvedValue([
+          { id: 'id1', name: 'name1' },
+          { id: 'id2', name: 'name2' },
+        ]);
+        const rendered = renderSuspenseHook(loader);
+        expect(rendered.container.textContent).toEqual('loading');
+        await waitFor(() =>
+          expect(rendered.container.textContent).toEqual('name1,name2')
+        );
+        expect(loader).toBeCalledTimes(1);
+      });
+
+      it('suspends again when params change', async () => {
+        const loader = jest
+          .fn()
+          .mockImplementation((params) =>
+            Promise.resolve([{ id: params[0], name: params[1] }])
+          );
+        const rendered = renderSuspenseHook(loader, selectParams);
+        await waitFor(() =>
+          expect(rendered.container.textContent).toEqual('value2')
+        );
+        rendered.store.dispatch(
+          otherSlice.actions.setParams({ param1: 'value3', param2: 'value4' })
+        );
+        await waitFor(() =>
+          expect(rendered.container.textContent).toEqual('value4')
+        );
+        expect(loader).toBeCalledTimes(2);
+      });
+
+      it('throws load errors to the error boundary', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const loader = jest.fn().mockRejectedValue(new Error('failed'));
+        const rendered = renderSuspenseHook(loader);
+        await waitFor(() =>
+          expect(rendered.container.textContent).toEqual('error: failed')
+        );
+        jest.restoreAllMocks();
+      });
+
+      it('throws the error of a dependency which failed to load to the error boundary', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const factorySlice = createMonitoredSlice<
+          { factorySlice: IMonitoredState<string | null> },
+          string | null,
+          IMonitoredState<string | null>
+        >(
+          { name: 'factorySlice', initialState: {}, reducers: {} },
+          null,
+          jest.fn().mockRejectedValue(new Error('factory failed'))
+        );
+        const loader = jest.fn().mockResolvedValue([]);
+        const { slice, hooks } = createMonitoredSlice<
+          {
+            factorySlice: IMonitoredState<string | null>;
+            testSlice: ITestState;
+          },
+          ITestItem[],
+          ITestState
+        >(
+          {
+            name: 'testSlice',
+            initialState: DEFAULT_INITIAL_STATE,
+            reducers: {},
+            dependsOn: [factorySlice],
+          },
+          DEFAULT_INITIAL_DATA,
+          loader
+        );
+        const store = configureStore({
+          reducer: {
+            factorySlice: factorySlice.slice.reducer,
+            testSlice: slice.reducer,
+          },
+        });
+        const TestComponent = () => {
+          const { data } = hooks.useMonitoredDataSuspense();
+          return <>{data.length}</>;
+        };
+        const rendered = render(
+          <Provider store={store}>
+            <ErrorBoundary>
+              <React.Suspense fallback="loading">
+                <TestComponent />
+              </React.Suspense>
+            </ErrorBoundary>
+          </Provider>
+        );
+        await waitFor(() =>
+          expect(rendered.container.textContent).toEqual(
+            'error: factory failed'
+          )
+        );
+        expect(loader).not.toBeCalled();
+        jest.restoreAllMocks();
+      });
+    });
   });
 
   describe('context', () => {
@@ -467,8 +2439,17 @@ describe('createMonitoredSlice', () => {
         const contextCalls = renderMonitoredContext();
         expect(contextCalls).toBeCalledWith({
           loading: true,
+          isInitialLoading: true,
+          isFetching: true,
+          isStale: true,
+          hasData: false,
+          status: 'loading',
           data: DEFAULT_INITIAL_DATA,
+          error: null,
+          attempt: 1,
+          maxAttempts: 1,
           makeStale: expect.anything(),
+          refetch: expect.anything(),
         });
       });
 
@@ -505,18 +2486,39 @@ describe('createMonitoredSlice', () => {
         );
       });
 
+      it('returns error if loader rejects', async () => {
+        const loader = jest.fn().mockRejectedValue(new Error('failed'));
+        const contextCalls = renderMonitoredContext(loader);
+        await waitFor(() =>
+          expect(contextCalls).toBeCalledWith(
+            expect.objectContaining({
+              loading: false,
+              error: expect.objectContaining({ message: 'failed' }),
+            })
+          )
+        );
+      });
+
       it('passes null for params if no loader params selector configured', async () => {
         const loader = jest.fn().mockResolvedValue([]);
         const contextCalls = renderMonitoredContext(loader);
         await waitForLoaded(contextCalls);
-        expect(loader).toBeCalledWith(null);
+        expect(loader).toBeCalledWith(
+          null,
+          expect.any(AbortSignal),
+          DEFAULT_INITIAL_DATA
+        );
       });
 
       it('passes params if loader params selector configured', async () => {
         const loader = jest.fn().mockResolvedValue([]);
         const contextCalls = renderMonitoredContext(loader, selectParams);
         await waitForLoaded(contextCalls);
-        expect(loader).toBeCalledWith(['value1', 'value2']);
+        expect(loader).toBeCalledWith(
+          ['value1', 'value2'],
+          expect.any(AbortSignal),
+          DEFAULT_INITIAL_DATA
+        );
       });
 
       it('automatically reloads data if params change', async () => {
@@ -531,7 +2533,11 @@ describe('createMonitoredSlice', () => {
             })
           )
         );
-        expect(loader).toBeCalledWith(['value1', 'value2']);
+        expect(loader).toBeCalledWith(
+          ['value1', 'value2'],
+          expect.any(AbortSignal),
+          DEFAULT_INITIAL_DATA
+        );
         jest.clearAllMocks();
         renderedStore.dispatch(
           otherSlice.actions.setParams({ param1: 'value3', param2: 'value4' })
@@ -543,7 +2549,11 @@ describe('createMonitoredSlice', () => {
             })
           )
         );
-        expect(loader).toBeCalledWith(['value3', 'value4']);
+        expect(loader).toBeCalledWith(
+          ['value3', 'value4'],
+          expect.any(AbortSignal),
+          DEFAULT_INITIAL_DATA
+        );
       });
 
       it('only stores loaded data if params still match', async () => {
@@ -575,4 +2585,227 @@ describe('createMonitoredSlice', () => {
       });
     });
   });
+
+  describe('dependsOn', () => {
+    interface IDependentRootState {
+      factorySlice: IMonitoredState<string | null>;
+      testSlice: ITestState;
+    }
+
+    const buildDependentStore = (
+      factoryLoader = jest.fn().mockResolvedValue('factory1'),
+      loader = jest
+        .fn()
+        .mockImplementation((factoryId) =>
+          Promise.resolve([{ id: `${factoryId}-widget`, name: 'widget' }])
+        )
+    ) => {
+      const factorySlice = createMonitoredSlice<
+        IDependentRootState,
+        string | null,
+        IMonitoredState<string | null>
+      >(
+        { name: 'factorySlice', initialState: {}, reducers: {} },
+        null,
+        factoryLoader
+      );
+      const testSlice = createMonitoredSlice<
+        IDependentRootState,
+        ITestItem[],
+        ITestState,
+        string | null
+      >(
+        {
+          name: 'testSlice',
+          initialState: DEFAULT_INITIAL_STATE,
+          reducers: {},
+          dependsOn: [factorySlice],
+        },
+        DEFAULT_INITIAL_DATA,
+        loader,
+        createSelector(
+          factorySlice.selectors.selectData,
+          (factoryId) => factoryId
+        )
+      );
+      const store = configureStore({
+        reducer: {
+          factorySlice: factorySlice.slice.reducer,
+          testSlice: testSlice.slice.reducer,
+        },
+      });
+      return { factorySlice, testSlice, store, factoryLoader, loader };
+    };
+
+    it('loads dependencies before loading with their data', async () => {
+      const { testSlice, store, factoryLoader, loader } = buildDependentStore();
+      const data = await store.dispatch(testSlice.actions.ensureLoaded());
+      expect(factoryLoader).toBeCalledTimes(1);
+      expect(loader).toBeCalledTimes(1);
+      expect(loader).toBeCalledWith(
+        'factory1',
+        expect.any(AbortSignal),
+        DEFAULT_INITIAL_DATA
+      );
+      expect(data).toEqual([{ id: 'factory1-widget', name: 'widget' }]);
+    });
+
+    it('waits while a dependency failed to load', async () => {
+      const { testSlice, store, loader } = buildDependentStore(
+        jest.fn().mockRejectedValue(new Error('failed'))
+      );
+      await store.dispatch(testSlice.actions.load());
+      expect(loader).not.toBeCalled();
+      expect(testSlice.selectors.selectStatus(store.getState())).toEqual(
+        'loading'
+      );
+    });
+
+    it('rejects ensureLoaded with the error of a dependency which failed to load', async () => {
+      const { testSlice, store, loader } = buildDependentStore(
+        jest.fn().mockRejectedValue(new Error('failed'))
+      );
+      await expect(
+        store.dispatch(testSlice.actions.ensureLoaded())
+      ).rejects.toEqual(expect.objectContaining({ message: 'failed' }));
+      expect(loader).not.toBeCalled();
+    });
+
+    it('is marked as stale when a dependency loads', async () => {
+      const { factorySlice, testSlice, store } = buildDependentStore();
+      await store.dispatch(testSlice.actions.load());
+      expect(testSlice.selectors.selectStale(store.getState())).toEqual(false);
+      await store.dispatch(factorySlice.actions.refetch());
+      expect(testSlice.selectors.selectStale(store.getState())).toEqual(true);
+    });
+
+    it('monitors dependencies and reloads once they reload', async () => {
+      const { factorySlice, testSlice, store, factoryLoader, loader } =
+        buildDependentStore();
+      const rendered = renderHook(() => testSlice.hooks.useMonitoredData(), {
+        wrapper: ({ children }) => (
+          <Provider store={store}>{children}</Provider>
+        ),
+      });
+      expect(
+        factorySlice.selectors.selectMonitorCount(store.getState())
+      ).toEqual(1);
+      await waitFor(() =>
+        expect(rendered.result.current.status).toEqual('success')
+      );
+      expect(rendered.result.current.data).toEqual([
+        { id: 'factory1-widget', name: 'widget' },
+      ]);
+      expect(loader).toBeCalledTimes(1);
+
+      factoryLoader.mockResolvedValue('factory2');
+      act(() => {
+        store.dispatch(factorySlice.slice.actions.makeStale(null));
+      });
+      await waitFor(() =>
+        expect(rendered.result.current.data).toEqual([
+          { id: 'factory2-widget', name: 'widget' },
+        ])
+      );
+      expect(factoryLoader).toBeCalledTimes(2);
+      expect(loader).toBeCalledTimes(2);
+      rendered.unmount();
+      expect(
+        factorySlice.selectors.selectMonitorCount(store.getState())
+      ).toEqual(0);
+    });
+  });
+
+  describe('entityAdapter', () => {
+    interface IEntityRootState {
+      testSlice: IMonitoredEntityState<ITestItem>;
+    }
+
+    const buildEntityStore = (
+      loader = jest.fn().mockResolvedValue([
+        { id: 'id2', name: 'name2' },
+        { id: 'id1', name: 'name1' },
+      ])
+    ) => {
+      const monitoredSlice = createMonitoredSlice<
+        IEntityRootState,
+        ITestItem[],
+        IMonitoredEntityState<ITestItem>
+      >(
+        {
+          name: 'testSlice',
+          initialState: {},
+          reducers: {},
+          entityAdapter: createEntityAdapter<ITestItem>({
+            sortComparer: (left, right) => left.id.localeCompare(right.id),
+          }),
+        },
+        [],
+        loader
+      );
+      const store = configureStore({
+        reducer: { testSlice: monitoredSlice.slice.reducer },
+      });
+      return { ...monitoredSlice, store };
+    };
+
+    it('stores data normalized through the entity adapter', async () => {
+      const { actions, selectors, store } = buildEntityStore();
+      await store.dispatch(actions.load());
+      expect(store.getState().testSlice.data).toEqual({
+        ids: ['id1', 'id2'],
+        entities: {
+          id1: { id: 'id1', name: 'name1' },
+          id2: { id: 'id2', name: 'name2' },
+        },
+      });
+      expect(selectors.selectData(store.getState())).toEqual([
+        { id: 'id1', name: 'name1' },
+        { id: 'id2', name: 'name2' },
+      ]);
+      expect(selectors.selectAll(store.getState())).toBe(
+        selectors.selectData(store.getState())
+      );
+      expect(selectors.selectIds(store.getState())).toEqual(['id1', 'id2']);
+      expect(selectors.selectById(store.getState(), 'id2')).toEqual({
+        id: 'id2',
+        name: 'name2',
+      });
+    });
+
+    it('keeps the entity state when reloading unchanged data', async () => {
+      const { actions, store } = buildEntityStore();
+      await store.dispatch(actions.load());
+      const data = store.getState().testSlice.data;
+      await store.dispatch(actions.refetch());
+      expect(store.getState().testSlice.data).toBe(data);
+    });
+
+    it('edits entities without affecting the load lifecycle', async () => {
+      const { actions, slice, selectors, store } = buildEntityStore();
+      await store.dispatch(actions.load());
+      store.dispatch(slice.actions.makeStale(null));
+      store.dispatch(slice.actions.upsertOne({ id: 'id3', name: 'name3' }));
+      store.dispatch(slice.actions.removeOne('id1'));
+      expect(selectors.selectIds(store.getState())).toEqual(['id2', 'id3']);
+      expect(selectors.selectStale(store.getState())).toEqual(true);
+      expect(selectors.selectHasData(store.getState())).toEqual(true);
+    });
+
+    it('identifies entities by id without an entity adapter', () => {
+      const { selectors } = buildTestSlice();
+      const rootState = buildRootState({
+        stale: false,
+        data: [{ id: 'id1', name: 'name1' }],
+      });
+      expect(selectors.selectIds(rootState)).toEqual(['id1']);
+      expect(selectors.selectById(rootState, 'id1')).toEqual({
+        id: 'id1',
+        name: 'name1',
+      });
+      expect(selectors.selectAll(rootState)).toEqual([
+        { id: 'id1', name: 'name1' },
+      ]);
+    });
+  });
 });
@@ -73,6 +73,8 @@ const widgetsSlice = createMonitoredSlice<
     },
     resetOnStale: false, // Reset to initial data immediately whenever stale prior to loading
     resetOnLoading: true, // Return initial data as data whenever actively loading
+    keyed: true, // Cache data per factory so switching back to a recent factory doesn't reload
+    enabled: (state) => selectedFactory(state) !== null, // Stay idle until a factory is selected
   },
   /**
    * Initial data value and what's used when stale/loading depending on resetOnStale/resetOnLoading
@@ -85,9 +87,6 @@ const widgetsSlice = createMonitoredSlice<
    */
   async (factoryId) => {
     action('load')(factoryId);
-    if (!factoryId) {
-      return Promise.resolve([]);
-    }
     return new Promise((resolve) => {
       setTimeout(() => {
         resolve([
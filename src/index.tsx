@@ -1,4 +1,4 @@
-import React, { useEffect, useCallback } from 'react';
+import React, { useEffect, useCallback, useContext, useMemo } from 'react';
 import {
   createSlice,
   createSelector,
@@ -8,19 +8,79 @@ import {
   OutputSelector,
   ActionCreatorWithoutPayload,
   Slice,
+  SerializedError,
+  Draft,
+  createNextState,
+  ThunkAction,
+  ThunkDispatch,
+  AnyAction,
+  miniSerializeError,
+  original,
+  createEntityAdapter,
+  EntityAdapter,
+  EntityId,
+  EntityState,
 } from '@reduxjs/toolkit';
-import { useSelector, useDispatch } from 'react-redux';
-import deepEqual from 'deep-equal';
+import { useSelector, useDispatch, useStore } from 'react-redux';
+import { MonitoredTag, invalidateTags, tagsMatch } from './tags';
+import { MonitoredSliceCollectorContext } from './ssr';
+import { onFocus, onReconnect } from './listeners';
+import type { IPersistOptions } from './persistence';
+import type { MonitoredSyncMessage } from './sync';
+
+export * from './createMonitoredMutation';
+export * from './tags';
+export * from './ssr';
+export * from './listeners';
+export * from './createMonitoredInfiniteSlice';
+export * from './persistence';
+export * from './sync';
 
 /**
- * State attributes provided for base monitored slice.
+ * Load lifecycle attributes for a single set of loader params.
  */
-export interface IMonitoredState<IDataType> {
+export interface IMonitoredEntry<IDataType> {
   stale: boolean;
   loading: boolean;
   data: IDataType;
+  error: SerializedError | null;
+  attempt: number;
+  fetchedAt: number | null;
+  providedTags: MonitoredTag[];
+}
+
+/**
+ * State attributes provided for base monitored slice.
+ * The top level entry attributes are for the current loader params, cache holds entries for other recently used params in keyed mode.
+ * key holds the serialized params of the most recently started load (also the cache key in keyed mode), the params themselves aren't stored since they may not be serializable.
+ */
+export interface IMonitoredState<IDataType> extends IMonitoredEntry<IDataType> {
+  monitorCount: number;
+  pendingUpdates: number;
+  key: string | null;
+  cache: Record<string, IMonitoredEntry<IDataType>>;
+  cacheKeys: string[];
 }
 
+/**
+ * State attributes provided for a monitored slice which stores its data through an entity adapter.
+ */
+export type IMonitoredEntityState<IEntity> = IMonitoredState<
+  EntityState<IEntity>
+>;
+
+/**
+ * Entity type of array data.
+ */
+type EntityOf<IDataType> = IDataType extends (infer IEntity)[]
+  ? IEntity
+  : never;
+
+/**
+ * State attribute names which are managed by the base monitored slice.
+ */
+type MonitoredStateKeys = keyof IMonitoredState<unknown>;
+
 /**
  * Actions provided for base monitored slice.
  */
@@ -31,10 +91,58 @@ export interface IMonitoredActions {
   makeStale: ActionCreatorWithoutPayload;
 }
 
+/**
+ * Configuration options for retrying failed loads.
+ */
+export interface IRetryOptions {
+  /**
+   * Maximum number of times the loader is called before giving up. Default: 1 (no retries)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay in milliseconds before the first retry, doubled for each subsequent retry. Default: 1000
+   */
+  retryDelay?: number;
+
+  /**
+   * Maximum delay in milliseconds between retries. Default: 30000
+   */
+  maxRetryDelay?: number;
+
+  /**
+   * If true, a random jitter of up to half the delay is applied to each retry. Default: true
+   */
+  jitter?: boolean;
+
+  /**
+   * Predicate deciding if a failed load should be retried. Default: all errors are retried
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * The parts of a monitored slice which are needed to depend on it.
+ */
+export interface IMonitoredDependency<IRootState> {
+  slice: Pick<Slice, 'actions'>;
+  selectors: {
+    selectStale: (state: IRootState) => boolean;
+    selectLoading: (state: IRootState) => boolean;
+    selectError: (state: IRootState) => SerializedError | null;
+  };
+  actions: {
+    load: () => ThunkAction<Promise<void>, IRootState, unknown, AnyAction>;
+  };
+  hooks: {
+    useMonitoredData: () => unknown;
+  };
+}
+
 /**
  * Configuration options for monitored slice.
  */
-interface IMonitoredSliceOptions {
+export interface IMonitoredSliceOptions<IDataType, ILoaderParams, IRootState> {
   /**
    * If true, data is reset to initial data when marked as stale. Default: false
    */
@@ -44,8 +152,160 @@ interface IMonitoredSliceOptions {
    * If true, initial data is returned during loading. Default: false
    */
   resetOnLoading?: boolean;
+
+  /**
+   * Options for retrying failed loads. Default: no retries
+   */
+  retry?: IRetryOptions;
+
+  /**
+   * Time in milliseconds after loading before data is automatically treated as stale. Default: never
+   */
+  staleTime?: number;
+
+  /**
+   * Clock used for recording and comparing load times. Default: Date.now
+   */
+  now?: () => number;
+
+  /**
+   * Interval in milliseconds to reload data while the slice is being monitored. Default: no polling
+   */
+  pollInterval?: number;
+
+  /**
+   * If true, data is cached per loader params so switching back to recently used params doesn't reload. Default: false
+   */
+  keyed?: boolean;
+
+  /**
+   * Maximum number of entries (including the current one) kept in keyed mode, least recently used are dropped first. Default: 10
+   */
+  maxKeyedEntries?: number;
+
+  /**
+   * Tags provided by the slice's data, which mark the slice as stale when matched by an invalidateTags action. Default: none
+   */
+  providesTags?:
+    | MonitoredTag[]
+    | ((data: IDataType, params: ILoaderParams) => MonitoredTag[]);
+
+  /**
+   * Serializes loader params, used for comparing params and as the cache key in keyed mode. Default: JSON with sorted object keys
+   */
+  serializeParams?: (params: ILoaderParams) => string;
+
+  /**
+   * Decides if loader params are equal, in which case changing to them doesn't reload. Default: equal serialized params
+   */
+  paramsEqual?: (previous: ILoaderParams, next: ILoaderParams) => boolean;
+
+  /**
+   * Monitored slices which must be loaded (not stale, loading or failed) before this slice loads, e.g. because loaderParamsSelector selects their data.
+   * This slice is made stale whenever one of them loads, and monitoring this slice also monitors them. Default: none
+   */
+  dependsOn?: IMonitoredDependency<IRootState>[];
+
+  /**
+   * If true, data is made stale while monitored when the app regains focus (see setupMonitoredListeners). Default: false
+   */
+  refetchOnFocus?: boolean;
+
+  /**
+   * If true, data is made stale while monitored when the network comes back online (see setupMonitoredListeners). Default: false
+   */
+  refetchOnReconnect?: boolean;
+
+  /**
+   * Persists loaded data, its load time and params to storage, so the rehydrate action can restore it as stale data which is shown while it reloads. Default: not persisted
+   */
+  persist?: IPersistOptions;
+
+  /**
+   * Time in milliseconds to wait for another tab's load of the same params (see createMonitoredSyncMiddleware) before loading in this tab instead. Default: 10000
+   */
+  syncTimeout?: number;
+
+  /**
+   * Selector which prevents loading while it returns false, leaving the slice idle until it returns true. Default: always enabled
+   */
+  enabled?: (state: IRootState) => boolean;
+
+  /**
+   * Entity adapter (from createEntityAdapter) which array data is stored through, normalized as its entity state.
+   * Adds upsertOne, upsertMany, updateOne, removeOne and removeMany reducers which edit the data without affecting the load lifecycle. Default: stored as is
+   */
+  entityAdapter?: EntityAdapter<EntityOf<IDataType>>;
+
+  /**
+   * If true, loaded data reuses unchanged parts of the existing data so their references stay stable. Default: true
+   */
+  structuralSharing?: boolean;
+
+  /**
+   * Decides if loaded data is equal to the existing data, in which case the existing data is kept instead. Replaces structural sharing when provided.
+   */
+  isDataEqual?: (previous: IDataType, next: IDataType) => boolean;
+}
+
+/**
+ * Options accepted by useMonitoredData hook.
+ */
+export interface IUseMonitoredDataOptions {
+  /**
+   * Overrides the slice's pollInterval for as long as this hook is mounted.
+   * When monitors request different intervals the shortest one is used.
+   */
+  pollInterval?: number;
+
+  /**
+   * If false, this hook doesn't load data and reports it as idle, combined with the slice's enabled selector. Default: true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Options accepted by the load thunk.
+ */
+export interface ILoadOptions<ILoaderParams> {
+  /**
+   * If true, data is loaded even if it's not stale (but not while already loading). Default: false
+   */
+  force?: boolean;
+
+  /**
+   * Loader params to use instead of the result of loaderParamsSelector.
+   */
+  params?: ILoaderParams;
+}
+
+/**
+ * Immer recipe which edits monitored data in place.
+ */
+export type OptimisticRecipe<IDataType> = (draft: Draft<IDataType>) => void;
+
+/**
+ * Options accepted by the optimisticUpdate thunk.
+ */
+export interface IOptimisticUpdateOptions {
+  /**
+   * If true, data is replaced with the mutation's result once it resolves instead of keeping the recipe's edits. Default: false
+   */
+  replaceWithResult?: boolean;
 }
 
+/**
+ * Status of a monitored slice's data.
+ * idle: nothing loaded and nothing to load, loading: loading without data, success: data loaded,
+ * error: the last load failed, refreshing: loading with previously loaded data still available.
+ */
+export type MonitoredStatus =
+  | 'idle'
+  | 'loading'
+  | 'success'
+  | 'error'
+  | 'refreshing';
+
 /**
  * Object returned from useMonitoredData hook.
  */
@@ -60,20 +320,86 @@ export interface IUseMonitoredData<IDataType> {
    */
   loading: boolean;
 
+  /**
+   * True if the data is stale or loading and no loaded data is available
+   */
+  isInitialLoading: boolean;
+
+  /**
+   * True if a load is in-flight
+   */
+  isFetching: boolean;
+
+  /**
+   * True if the data is stale
+   */
+  isStale: boolean;
+
+  /**
+   * True if loaded data is available (rather than initial data)
+   */
+  hasData: boolean;
+
+  /**
+   * Status of the data
+   */
+  status: MonitoredStatus;
+
+  /**
+   * Error from the last failed load, or null if the last load succeeded
+   */
+  error: SerializedError | null;
+
+  /**
+   * Current (or last) load attempt, 0 if no load has been attempted
+   */
+  attempt: number;
+
+  /**
+   * Maximum number of load attempts based on retry configuration
+   */
+  maxAttempts: number;
+
   /**
    * Mark slice as stale.
    */
   makeStale: () => void;
+
+  /**
+   * Load data even if it's not stale.
+   */
+  refetch: () => void;
 }
 
-export interface ContextProviderProps {
+export interface ContextProviderProps extends IUseMonitoredDataOptions {
   children: React.ReactNode;
 }
 
+/**
+ * Hook which monitors a slice, optionally projecting its data with a selector.
+ */
+export interface IUseMonitoredDataHook<IDataType> {
+  (options?: IUseMonitoredDataOptions): IUseMonitoredData<IDataType>;
+
+  /**
+   * Only rerenders for data changes when the projection changes, based on equalityFn (default: reference equality).
+   */
+  <ISelected>(
+    selector: (data: IDataType) => ISelected,
+    equalityFn?: (left: ISelected, right: ISelected) => boolean,
+    options?: IUseMonitoredDataOptions
+  ): IUseMonitoredData<ISelected>;
+}
+
 /**
  * Object returned when creating a monitored slice.
  */
-export interface IMonitoredSlice<IRootState, IState, IDataType> {
+export interface IMonitoredSlice<
+  IRootState,
+  IState,
+  IDataType,
+  ILoaderParams = unknown
+> {
   /**
    * The actual slice.
    */
@@ -91,7 +417,11 @@ export interface IMonitoredSlice<IRootState, IState, IDataType> {
     /**
      * Selects if the slice data is stale.
      */
-    selectStale: OutputSelector<IRootState, boolean, (res: IState) => boolean>;
+    selectStale: OutputSelector<
+      IRootState,
+      boolean,
+      (res1: IState, res2: number) => boolean
+    >;
 
     /**
      * Selects if the slice data is loading.
@@ -110,110 +440,725 @@ export interface IMonitoredSlice<IRootState, IState, IDataType> {
       IDataType,
       (res1: IState, res2: boolean, res3: boolean) => IDataType
     >;
-  };
 
-  /**
-   * Hooks that are provided for interacting with the slice.
-   */
-  hooks: {
     /**
-     * Monitors a slice.
-     * If neither the ContextProvider or useMonitoredData hook are used, the data won't be loaded when stale.
+     * Selects the error from the last failed load.
      */
-    useMonitoredData: () => IUseMonitoredData<IDataType>;
-  };
+    selectError: OutputSelector<
+      IRootState,
+      SerializedError | null,
+      (res: IState) => SerializedError | null
+    >;
 
-  /**
-   * Context components for monitoring data.
-   */
-  context: {
     /**
-     * Context which provides monitored data information.
+     * Selects the current (or last) load attempt.
      */
-    Context: React.Context<IUseMonitoredData<IDataType>>;
+    selectAttempt: OutputSelector<IRootState, number, (res: IState) => number>;
+
     /**
-     * Context provider which also monitors a slice.
-     * If neither the ContextProvider or useMonitoredData hook are used, the data won't be loaded when stale.
+     * Selects when the slice data was last loaded.
      */
-    ContextProvider: React.ComponentType;
-  };
-}
-
-/**
- * Creates a monitored slice which can load, provide, and make stale data based on other data within the Redux store.
- * Data is only fetched when stale and the slice is actively being monitored.
- * @param options Monitored slice and create slice options
- * @param initialData Initial value for data and (optionally) used when stale or loading
- * @param loader Function to load data based on params
- * @param loaderParamsSelector Selector which returns loader params
- * @returns New monitored slice
- */
-export function createMonitoredSlice<
-  IRootState,
-  IDataType,
-  IState extends IMonitoredState<IDataType>,
-  ILoaderParams = unknown
->(
-  options: IMonitoredSliceOptions &
-    CreateSliceOptions<Omit<IState, 'stale' | 'loading' | 'data'>>,
-  initialData: IDataType,
-  loader: (params: ILoaderParams) => Promise<IDataType>,
-  loaderParamsSelector: OutputSelector<
-    IRootState,
-    any,
-    (R: any) => ILoaderParams
-  > | null = null
-): IMonitoredSlice<IRootState, IState, IDataType> {
-  const slice = createSlice<IState, SliceCaseReducers<IState>>({
-    name: options.name,
-    initialState: {
-      ...options.initialState,
-      stale: true,
-      loading: false,
-      data: initialData,
-    } as IState,
-    reducers: {
-      ...options.reducers,
-      makeStale: (state) => {
-        state.stale = true;
-        if (options.resetOnStale) {
-          state.data = initialData as any;
-        }
-      },
-      makeLoading: (state) => {
-        state.loading = true;
-      },
-      fulfill: (state, action) => {
-        state.stale = false;
-        state.loading = false;
-        state.data = action.payload.data;
-      },
-    },
-  });
+    selectFetchedAt: OutputSelector<
+      IRootState,
+      number | null,
+      (res: IState) => number | null
+    >;
 
-  /**
-   * Selector which returns the entire slice.
-   */
-  const selectSlice = createSelector<IRootState, IState, IState>(
-    (state) => (state as any)[options.name] as IState,
-    (slice) => slice
-  );
+    /**
+     * Selects how many monitors (useMonitoredData hooks or ContextProviders) are mounted.
+     */
+    selectMonitorCount: OutputSelector<
+      IRootState,
+      number,
+      (res: IState) => number
+    >;
 
-  const selectNull = createSelector(
-    () => null,
-    () => null
-  );
+    /**
+     * Selects if the slice is being monitored by at least one monitor.
+     */
+    selectIsMonitored: OutputSelector<
+      IRootState,
+      boolean,
+      (res: number) => boolean
+    >;
 
-  /**
-   * Selector which returns true if data is stale.
-   */
-  const selectStale = createSelector(selectSlice, (slice) => slice.stale);
+    /**
+     * Selects if loaded data is available (rather than initial data).
+     */
+    selectHasData: OutputSelector<
+      IRootState,
+      boolean,
+      (res1: IState, res2: boolean, res3: boolean) => boolean
+    >;
 
-  /**
+    /**
+     * Selects if a load is in-flight.
+     */
+    selectIsFetching: OutputSelector<
+      IRootState,
+      boolean,
+      (res: boolean) => boolean
+    >;
+
+    /**
+     * Selects if the slice data is stale or loading and no loaded data is available.
+     */
+    selectIsInitialLoading: OutputSelector<
+      IRootState,
+      boolean,
+      (res1: boolean, res2: boolean, res3: boolean, res4: boolean) => boolean
+    >;
+
+    /**
+     * Selects if loading is enabled based on the slice's enabled selector.
+     */
+    selectEnabled: OutputSelector<
+      IRootState,
+      boolean,
+      (res: boolean) => boolean
+    >;
+
+    /**
+     * Selects the ids of the data's entities, identified by the entityAdapter (or their id attribute without one).
+     */
+    selectIds: (state: IRootState) => EntityId[];
+
+    /**
+     * Selects one of the data's entities by id.
+     */
+    selectById: (
+      state: IRootState,
+      id: EntityId
+    ) => EntityOf<IDataType> | undefined;
+
+    /**
+     * Selects every entity of the data, in the order of their ids.
+     */
+    selectAll: (state: IRootState) => EntityOf<IDataType>[];
+
+    /**
+     * Creates a memoized selector which projects the slice data (as selected by selectData).
+     */
+    createDataSelector: <ISelected>(
+      projector: (data: IDataType) => ISelected
+    ) => OutputSelector<IRootState, ISelected, (res: IDataType) => ISelected>;
+
+    /**
+     * Selects the status of the slice data.
+     */
+    selectStatus: OutputSelector<
+      IRootState,
+      MonitoredStatus,
+      (
+        res1: boolean,
+        res2: boolean,
+        res3: SerializedError | null,
+        res4: boolean,
+        res5: boolean
+      ) => MonitoredStatus
+    >;
+  };
+
+  /**
+   * Thunk actions for loading data outside of React.
+   */
+  actions: {
+    /**
+     * Loads data if it's stale or the loader params changed.
+     */
+    load: (
+      loadOptions?: ILoadOptions<ILoaderParams>
+    ) => ThunkAction<Promise<void>, IRootState, unknown, AnyAction>;
+
+    /**
+     * Loads data even if it's not stale.
+     */
+    refetch: () => ThunkAction<Promise<void>, IRootState, unknown, AnyAction>;
+
+    /**
+     * Marks data (including cached entries) as stale, aborting the in-flight load it supersedes.
+     */
+    makeStale: () => ThunkAction<void, IRootState, unknown, AnyAction>;
+
+    /**
+     * Loads data if needed and resolves with it once any in-flight load settles, an earlier failed load is retried.
+     * Rejects with the load error, the error of a dependency which failed to load, if loading is disabled, or if a load of other params superseded it.
+     */
+    ensureLoaded: (
+      ...params: [] | [ILoaderParams]
+    ) => ThunkAction<Promise<IDataType>, IRootState, unknown, AnyAction>;
+
+    /**
+     * Returns the params of the most recently started load, or undefined if they're unknown (e.g. nothing was loaded yet).
+     */
+    getLoadedParams: () => ThunkAction<
+      ILoaderParams | undefined,
+      IRootState,
+      unknown,
+      AnyAction
+    >;
+
+    /**
+     * Restores persisted data as stale data, unless data was loaded in the meantime. Does nothing without the persist option.
+     * Resolves synchronously (before the first render) with synchronous storage.
+     */
+    rehydrate: () => ThunkAction<Promise<void>, IRootState, unknown, AnyAction>;
+
+    /**
+     * Applies a message from another tab, used by createMonitoredSyncMiddleware.
+     */
+    receiveSync: (
+      message: MonitoredSyncMessage
+    ) => ThunkAction<void, IRootState, unknown, AnyAction>;
+
+    /**
+     * Applies a recipe to the data immediately, then commits or rolls it back once the mutation settles.
+     */
+    optimisticUpdate: <IResult>(
+      recipe: OptimisticRecipe<IDataType>,
+      mutation: Promise<IResult>,
+      updateOptions?: IOptimisticUpdateOptions
+    ) => ThunkAction<Promise<IResult>, IRootState, unknown, AnyAction>;
+  };
+
+  /**
+   * Hooks that are provided for interacting with the slice.
+   */
+  hooks: {
+    /**
+     * Monitors a slice.
+     * If neither the ContextProvider or useMonitoredData hook are used, the data won't be loaded when stale.
+     */
+    useMonitoredData: IUseMonitoredDataHook<IDataType>;
+
+    /**
+     * Monitors a slice like useMonitoredData, but suspends while the data is stale or loading and throws load errors (including a dependency's) to the nearest error boundary.
+     * Doesn't suspend while loading is disabled.
+     * Making the slice stale (e.g. when resetting the error boundary) retries a failed load.
+     */
+    useMonitoredDataSuspense: IUseMonitoredDataHook<IDataType>;
+  };
+
+  /**
+   * Context components for monitoring data.
+   */
+  context: {
+    /**
+     * Context which provides monitored data information.
+     */
+    Context: React.Context<IUseMonitoredData<IDataType>>;
+    /**
+     * Context provider which also monitors a slice.
+     * If neither the ContextProvider or useMonitoredData hook are used, the data won't be loaded when stale.
+     */
+    ContextProvider: React.ComponentType<IUseMonitoredDataOptions>;
+  };
+}
+
+/**
+ * Creates a selector with the same shape as createSelector but without memoization, for selectors which depend on more than store state (e.g. time).
+ * @param selector1 First input selector
+ * @param selector2 Second input selector
+ * @param combiner Function which combines the input selector results
+ * @returns Unmemoized output selector
+ */
+function createUnmemoizedSelector<S, R1, R2, T>(
+  selector1: (state: S) => R1,
+  selector2: (state: S) => R2,
+  combiner: (res1: R1, res2: R2) => T
+): OutputSelector<S, T, (res1: R1, res2: R2) => T> {
+  let recomputations = 0;
+  const selector = (state: S): T => {
+    recomputations++;
+    return combiner(selector1(state), selector2(state));
+  };
+  return Object.assign(selector, {
+    resultFunc: combiner,
+    recomputations: () => recomputations,
+    resetRecomputations: () => (recomputations = 0),
+  });
+}
+
+/**
+ * Derives the status of monitored data from its flags.
+ * @param pending True if the data is loading or stale and enabled
+ * @param error Error from the last failed load
+ * @param hasData True if loaded data is available
+ * @param enabled True if loading is enabled
+ * @returns Status
+ */
+const getStatus = (
+  pending: boolean,
+  error: SerializedError | null,
+  hasData: boolean,
+  enabled: boolean
+): MonitoredStatus => {
+  if (pending) {
+    return hasData ? 'refreshing' : 'loading';
+  }
+  if (!enabled || !(error || hasData)) {
+    return 'idle';
+  }
+  return error ? 'error' : 'success';
+};
+
+/**
+ * Checks if a value is a plain object (rather than a class instance, array, etc.).
+ * @param value Value to check
+ * @returns True if plain object
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Serializes loader params as JSON with object keys sorted, so equal params always serialize the same regardless of key order.
+ * @param params Loader params
+ * @returns Serialized params
+ */
+export const stableSerializeParams = (params: unknown): string =>
+  String(
+    JSON.stringify(params, (_key, value) =>
+      isPlainObject(value)
+        ? Object.keys(value)
+            .sort()
+            .reduce<Record<string, unknown>>((sorted, key) => {
+              sorted[key] = value[key];
+              return sorted;
+            }, {})
+        : value
+    )
+  );
+
+/**
+ * Returns next, reusing every array/plain object subtree of previous which is deeply equal to the matching subtree of next.
+ * @param previous Existing value
+ * @param next Incoming value
+ * @returns previous if deeply equal, otherwise next with unchanged subtrees replaced by those of previous
+ */
+function replaceEqualDeep<T>(previous: unknown, next: T): T {
+  if (previous === next) {
+    return next;
+  }
+  const arrays = Array.isArray(previous) && Array.isArray(next);
+  if (!arrays && !(isPlainObject(previous) && isPlainObject(next))) {
+    return next;
+  }
+  const previousValues = previous as Record<string, unknown>;
+  const nextValues = next as unknown as Record<string, unknown>;
+  const keys = Object.keys(nextValues);
+  const result = (arrays ? [] : {}) as Record<string, unknown>;
+  let equal = keys.length === Object.keys(previousValues).length;
+  for (const key of keys) {
+    result[key] = replaceEqualDeep(previousValues[key], nextValues[key]);
+    if (
+      result[key] !== previousValues[key] ||
+      !Object.prototype.hasOwnProperty.call(previousValues, key)
+    ) {
+      equal = false;
+    }
+  }
+  return (equal ? previous : result) as T;
+}
+
+/**
+ * Returns a promise which resolves after a delay.
+ * @param ms Delay in milliseconds
+ * @returns Promise
+ */
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Creates a monitored slice which can load, provide, and make stale data based on other data within the Redux store.
+ * Data is only fetched when stale and the slice is actively being monitored.
+ * @param options Monitored slice and create slice options
+ * @param initialData Initial value for data and (optionally) used when stale or loading
+ * @param loader Function to load data based on params, the signal is aborted if the load is superseded or no longer monitored.
+ * It also receives the current data when reloading the same params (otherwise initialData), e.g. to refetch what was loaded incrementally
+ * @param loaderParamsSelector Selector which returns loader params
+ * @returns New monitored slice
+ */
+export function createMonitoredSlice<
+  IRootState,
+  IDataType,
+  IState extends
+    | IMonitoredState<IDataType>
+    | IMonitoredEntityState<EntityOf<IDataType>>,
+  ILoaderParams = unknown
+>(
+  options: IMonitoredSliceOptions<IDataType, ILoaderParams, IRootState> &
+    CreateSliceOptions<Omit<IState, MonitoredStateKeys>>,
+  initialData: IDataType,
+  loader: (
+    params: ILoaderParams,
+    signal: AbortSignal,
+    data: IDataType
+  ) => Promise<IDataType>,
+  loaderParamsSelector: OutputSelector<
+    IRootState,
+    any,
+    (R: any) => ILoaderParams
+  > | null = null
+): IMonitoredSlice<IRootState, IState, IDataType, ILoaderParams> {
+  const {
+    keyed = false,
+    maxKeyedEntries = 10,
+    providesTags,
+    serializeParams = stableSerializeParams,
+    paramsEqual = (previous: ILoaderParams, next: ILoaderParams) =>
+      serializeParams(previous) === serializeParams(next),
+  } = options;
+
+  const { entityAdapter } = options;
+  const entitySelectors = entityAdapter?.getSelectors();
+
+  /**
+   * Converts data to the form it's stored in, normalized when stored through the entity adapter.
+   * @param data Data
+   * @returns Stored data
+   */
+  const toStored = (data: IDataType): unknown =>
+    entityAdapter
+      ? entityAdapter.setAll(
+          entityAdapter.getInitialState(),
+          data as unknown as EntityOf<IDataType>[]
+        )
+      : data;
+
+  /**
+   * Converts stored data back to data, memoized per entity state when stored through the entity adapter.
+   * @param stored Stored data
+   * @returns Data
+   */
+  const fromStored = (stored: unknown): IDataType =>
+    entitySelectors
+      ? (entitySelectors.selectAll(
+          stored as EntityState<EntityOf<IDataType>>
+        ) as unknown as IDataType)
+      : (stored as IDataType);
+
+  const initialEntry: IMonitoredEntry<unknown> = {
+    stale: true,
+    loading: false,
+    data: toStored(initialData),
+    error: null,
+    attempt: 0,
+    fetchedAt: null,
+    providedTags: [],
+  };
+
+  /**
+   * Marks entries of the slice state (the current entry and/or cached entries) as stale.
+   * @param state Slice state
+   * @param entries Entries to mark as stale
+   */
+  const makeEntriesStale = (
+    state: Draft<IState>,
+    entries: Draft<IMonitoredEntry<unknown>>[]
+  ): void => {
+    for (const entry of entries) {
+      entry.stale = true;
+      if (entry === state) {
+        // Supersedes any in-flight load so monitors reload with a new request
+        state.loading = false;
+      }
+      // Pending optimistic updates are kept until their mutations settle
+      if (options.resetOnStale && !(entry === state && state.pendingUpdates)) {
+        entry.data = initialEntry.data;
+      }
+    }
+  };
+
+  /**
+   * Case reducer which marks data (including cached entries) as stale.
+   * @param state Slice state
+   */
+  const makeAllStale = (state: Draft<IState>): void => {
+    makeEntriesStale(state, [state, ...Object.values(state.cache)]);
+  };
+
+  /**
+   * Marks the slice as stale only while it's being monitored, so unmonitored data isn't needlessly reset.
+   * Data which is already stale or loading is left alone, so events in quick succession (e.g. visibilitychange then focus) don't supersede the load the first one started.
+   * @param state Slice state
+   */
+  const makeStaleIfMonitored = (state: Draft<IState>): void => {
+    if (state.monitorCount > 0 && !state.stale && !state.loading) {
+      makeAllStale(state);
+    }
+  };
+
+  /**
+   * Returns the tags provided by loaded data, computed when it's stored since the params aren't kept in the store.
+   * @param data Loaded data
+   * @param params Loader params the data was loaded with
+   * @returns Provided tags
+   */
+  const getProvidedTags = (
+    data: IDataType,
+    params: ILoaderParams
+  ): MonitoredTag[] =>
+    typeof providesTags === 'function'
+      ? providesTags(data, params)
+      : providesTags ?? [];
+
+  const { structuralSharing = true, isDataEqual, dependsOn = [] } = options;
+
+  /**
+   * Keeps references to existing data which is unchanged by a load, so selectors and memoized components don't rerun.
+   * @param previous Existing stored data
+   * @param next Loaded data
+   * @returns Stored data
+   */
+  const shareData = (previous: unknown, next: IDataType): unknown => {
+    if (isDataEqual) {
+      return isDataEqual(fromStored(previous), next)
+        ? previous
+        : toStored(next);
+    }
+    const stored = toStored(next);
+    return structuralSharing ? replaceEqualDeep(previous, stored) : stored;
+  };
+
+  /**
+   * Case reducers which edit entities without affecting the load lifecycle, only provided with an entity adapter.
+   */
+  const entityReducers: SliceCaseReducers<IState> = entityAdapter
+    ? {
+        upsertOne: (state, action) => {
+          entityAdapter.upsertOne(
+            state.data as EntityState<EntityOf<IDataType>>,
+            action
+          );
+        },
+        upsertMany: (state, action) => {
+          entityAdapter.upsertMany(
+            state.data as EntityState<EntityOf<IDataType>>,
+            action
+          );
+        },
+        updateOne: (state, action) => {
+          entityAdapter.updateOne(
+            state.data as EntityState<EntityOf<IDataType>>,
+            action
+          );
+        },
+        removeOne: (state, action) => {
+          entityAdapter.removeOne(
+            state.data as EntityState<EntityOf<IDataType>>,
+            action
+          );
+        },
+        removeMany: (state, action) => {
+          entityAdapter.removeMany(
+            state.data as EntityState<EntityOf<IDataType>>,
+            action
+          );
+        },
+      }
+    : {};
+
+  const slice = createSlice<IState, SliceCaseReducers<IState>>({
+    name: options.name,
+    initialState: {
+      ...options.initialState,
+      ...initialEntry,
+      monitorCount: 0,
+      pendingUpdates: 0,
+      key: null,
+      cache: {},
+      cacheKeys: [],
+    } as IState,
+    reducers: {
+      ...options.reducers,
+      ...entityReducers,
+      makeStale: makeAllStale,
+      startOptimistic: (state, action) => {
+        state.data = toStored(action.payload.data) as Draft<IState['data']>;
+        state.pendingUpdates += 1;
+      },
+      settleOptimistic: (state, action) => {
+        if ('data' in action.payload) {
+          state.data = toStored(action.payload.data) as Draft<IState['data']>;
+        }
+        state.pendingUpdates = Math.max(0, state.pendingUpdates - 1);
+      },
+      switchKey: (state, action) => {
+        const { key } = action.payload;
+        if (state.key !== null) {
+          // Any in-flight load for the previous params is discarded, so it's cached as not loading
+          state.cache[state.key] = {
+            stale: state.stale,
+            loading: false,
+            data: state.data as Draft<IState['data']>,
+            error: state.error,
+            attempt: state.attempt,
+            fetchedAt: state.fetchedAt,
+            providedTags: state.providedTags,
+          } as Draft<IState['cache'][string]>;
+          state.cacheKeys.push(state.key);
+        }
+        const entry = state.cache[key] ?? initialEntry;
+        delete state.cache[key];
+        state.cacheKeys = state.cacheKeys.filter(
+          (cacheKey) => cacheKey !== key
+        );
+        Object.assign(state, entry, { key });
+        while (state.cacheKeys.length > Math.max(0, maxKeyedEntries - 1)) {
+          delete state.cache[state.cacheKeys.shift()];
+        }
+      },
+      makeLoading: (state, action) => {
+        state.loading = true;
+        state.attempt = 1;
+        if (action.payload) {
+          state.key = action.payload.key;
+        }
+      },
+      cancel: (state) => {
+        state.loading = false;
+      },
+      retry: (state) => {
+        state.attempt += 1;
+      },
+      fulfill: (state, action) => {
+        state.stale = false;
+        state.loading = false;
+        state.data = shareData(
+          (original(state) as IState).data,
+          action.payload.data
+        ) as Draft<IState['data']>;
+        state.error = null;
+        state.fetchedAt = action.payload.fetchedAt ?? null;
+        state.providedTags = action.payload.providedTags ?? [];
+      },
+      reject: (state, action) => {
+        // Not marked as stale so monitors don't immediately retry, makeStale will trigger a retry
+        state.stale = false;
+        state.loading = false;
+        state.error = action.payload.error;
+      },
+      rehydrate: (state, action) => {
+        const { data, fetchedAt, providedTags, key } = action.payload;
+        // Shown while being reloaded
+        state.stale = true;
+        state.data = toStored(data) as Draft<IState['data']>;
+        state.error = null;
+        state.fetchedAt = fetchedAt;
+        state.providedTags = providedTags;
+        // An in-flight load already set the (equal) key
+        if (!state.loading) {
+          state.key = key;
+        }
+      },
+      addMonitor: (state) => {
+        state.monitorCount += 1;
+      },
+      removeMonitor: (state) => {
+        state.monitorCount = Math.max(0, state.monitorCount - 1);
+      },
+    },
+    extraReducers: (builder) => {
+      // Reload with the dependencies' new data whenever one of them loads
+      for (const dependency of dependsOn) {
+        builder.addMatcher(
+          dependency.slice.actions.fulfill.match,
+          makeAllStale
+        );
+      }
+      if (options.refetchOnFocus) {
+        builder.addMatcher(onFocus.match, makeStaleIfMonitored);
+      }
+      if (options.refetchOnReconnect) {
+        builder.addMatcher(onReconnect.match, makeStaleIfMonitored);
+      }
+      builder.addMatcher(invalidateTags.match, (state, action) => {
+        // Entries which never loaded have nothing to invalidate
+        const isInvalidated = (entry: IMonitoredEntry<unknown>) =>
+          entry.fetchedAt !== null &&
+          tagsMatch(entry.providedTags, action.payload);
+        makeEntriesStale(
+          state,
+          [state, ...Object.values(state.cache)].filter(isInvalidated)
+        );
+      });
+    },
+  });
+
+  /**
+   * Selector which returns the entire slice.
+   */
+  const selectSlice = createSelector<IRootState, IState, IState>(
+    (state) => (state as any)[options.name] as IState,
+    (slice) => slice
+  );
+
+  const selectNull = createSelector(
+    () => null,
+    () => null
+  );
+
+  const { staleTime, now = Date.now } = options;
+
+  /**
+   * Selector which returns the current time, so time based staleness is re-evaluated on every call.
+   */
+  const selectNow = () => now();
+
+  /**
+   * Selector which returns true if data is stale, either explicitly or because it's older than staleTime.
+   */
+  const selectStale = createUnmemoizedSelector(
+    selectSlice,
+    selectNow,
+    (slice, currentTime) =>
+      slice.stale ||
+      (staleTime !== undefined &&
+        slice.fetchedAt !== null &&
+        currentTime - slice.fetchedAt >= staleTime)
+  );
+
+  /**
    * Selector which returns true if data is being loaded.
    */
   const selectLoading = createSelector(selectSlice, (slice) => slice.loading);
 
+  /**
+   * Selector which returns the error from the last failed load.
+   */
+  const selectError = createSelector(selectSlice, (slice) => slice.error);
+
+  /**
+   * Selector which returns the current (or last) load attempt.
+   */
+  const selectAttempt = createSelector(selectSlice, (slice) => slice.attempt);
+
+  /**
+   * Selector which returns when the data was last loaded.
+   */
+  const selectFetchedAt = createSelector(
+    selectSlice,
+    (slice) => slice.fetchedAt
+  );
+
+  /**
+   * Selector which returns how many monitors are mounted.
+   */
+  const selectMonitorCount = createSelector(
+    selectSlice,
+    (slice) => slice.monitorCount
+  );
+
+  /**
+   * Selector which returns true if at least one monitor is mounted.
+   */
+  const selectIsMonitored = createSelector(
+    selectMonitorCount,
+    (monitorCount) => monitorCount > 0
+  );
+
   /**
    * Selector which returns either initialData or loaded data based on status.
    */
@@ -228,84 +1173,1078 @@ export function createMonitoredSlice<
       if (loading && options.resetOnLoading) {
         return initialData;
       }
-      return slice.data;
+      return fromStored(slice.data);
     }
   );
 
-  let previousParams: any | null = null;
+  /**
+   * Entity adapter for the entity selectors, which identifies entities by their id attribute without an entityAdapter option.
+   */
+  const selectorsAdapter =
+    entityAdapter ?? createEntityAdapter<EntityOf<IDataType>>();
 
   /**
-   * Thunk action that conditionally dispatches actions to load data if it's stale and not loading, or if the loader params have changed.
-   * @returns Action
+   * Selector which returns the data normalized as entity state, i.e. the stored data (or initial data based on configuration) with an entity adapter.
    */
-  const load =
+  const selectEntityState = entityAdapter
+    ? createSelector(
+        selectSlice,
+        selectStale,
+        selectLoading,
+        (slice, stale, loading) =>
+          ((stale && options.resetOnStale) ||
+          (loading && options.resetOnLoading)
+            ? initialEntry.data
+            : slice.data) as EntityState<EntityOf<IDataType>>
+      )
+    : createSelector(selectData, (data) =>
+        selectorsAdapter.setAll(
+          selectorsAdapter.getInitialState(),
+          Array.isArray(data) ? data : []
+        )
+      );
+
+  const { selectIds, selectById } =
+    selectorsAdapter.getSelectors(selectEntityState);
+
+  /**
+   * Selector which returns every entity, which is the data itself as it's selected as an array of entities.
+   */
+  const selectAll = selectData as unknown as (
+    state: IRootState
+  ) => EntityOf<IDataType>[];
+
+  const { enabled: enabledSelector } = options;
+
+  /**
+   * Selector which returns true unless the enabled selector disables loading.
+   */
+  const selectEnabled = createSelector(
+    (state: IRootState) => (enabledSelector ? enabledSelector(state) : true),
+    (enabled) => enabled
+  );
+
+  /**
+   * Selector which returns true if loaded data is available, i.e. data was loaded and isn't being reset to initialData.
+   */
+  const selectHasData = createSelector(
+    selectSlice,
+    selectStale,
+    selectLoading,
+    (slice, stale, loading) =>
+      slice.fetchedAt !== null &&
+      !(stale && options.resetOnStale) &&
+      !(loading && options.resetOnLoading)
+  );
+
+  /**
+   * Selector which returns true if a load is in-flight.
+   */
+  const selectIsFetching = createSelector(selectLoading, (loading) => loading);
+
+  /**
+   * Selector which returns true if data is stale or loading without loaded data to show in the meantime.
+   */
+  const selectIsInitialLoading = createSelector(
+    selectStale,
+    selectLoading,
+    selectHasData,
+    selectEnabled,
+    (stale, loading, hasData, enabled) =>
+      ((stale && enabled) || loading) && !hasData
+  );
+
+  /**
+   * Selector which returns the status of the data, idle while loading is disabled.
+   */
+  const selectStatus = createSelector(
+    selectStale,
+    selectLoading,
+    selectError,
+    selectHasData,
+    selectEnabled,
+    (stale, loading, error, hasData, enabled) =>
+      getStatus((stale && enabled) || loading, error, hasData, enabled)
+  );
+
+  /**
+   * Creates a memoized selector which projects the data returned by selectData.
+   * @param projector Function which projects the data
+   * @returns Selector which only recomputes when the data changes
+   */
+  const createDataSelector = <ISelected,>(
+    projector: (data: IDataType) => ISelected
+  ) => createSelector(selectData, projector);
+
+  const {
+    maxAttempts = 1,
+    retryDelay = 1000,
+    maxRetryDelay = 30000,
+    jitter = true,
+    shouldRetry = () => true,
+  } = options.retry ?? {};
+
+  /**
+   * Calculates the exponential backoff delay before retrying a failed attempt.
+   * @param attempt Attempt which just failed
+   * @returns Delay in milliseconds
+   */
+  const getRetryDelay = (attempt: number): number => {
+    const delay = Math.min(maxRetryDelay, retryDelay * 2 ** (attempt - 1));
+    return jitter ? delay / 2 + (Math.random() * delay) / 2 : delay;
+  };
+
+  /**
+   * Selector which returns true once every dependency is loaded.
+   */
+  const selectDependenciesReady = (state: IRootState): boolean =>
+    dependsOn.every(
+      (dependency) =>
+        !dependency.selectors.selectStale(state) &&
+        !dependency.selectors.selectLoading(state) &&
+        !dependency.selectors.selectError(state)
+    );
+
+  /**
+   * Selector which returns the error of the first dependency which failed to load, unless it's being reloaded.
+   */
+  const selectDependencyError = (state: IRootState): SerializedError | null =>
+    dependsOn
+      .filter(
+        (dependency) =>
+          !dependency.selectors.selectStale(state) &&
+          !dependency.selectors.selectLoading(state)
+      )
+      .map((dependency) => dependency.selectors.selectError(state))
+      .find((error) => error) ?? null;
+
+  /**
+   * Params of the most recently started load, one record per store (keyed by the store's getState) along with the key they serialize to.
+   * They're kept out of the store since params may not be serializable (e.g. Dates), the store only tracks the key.
+   */
+  const loadedParams = new WeakMap<
+    () => IRootState,
+    { key: string; params: ILoaderParams }
+  >();
+
+  /**
+   * Records the params of a load which is starting (or being waited for) in a store.
+   * @param getState getState of the store
+   * @param params Loader params
+   * @returns Key the params serialize to
+   */
+  const trackParams = (
+    getState: () => IRootState,
+    params: ILoaderParams
+  ): string => {
+    const key = serializeParams(params);
+    loadedParams.set(getState, { key, params });
+    return key;
+  };
+
+  /**
+   * Checks if params match the params of the most recently started load in a store, using paramsEqual when they're known.
+   * Otherwise (e.g. for state hydrated from the server) the key is compared, where no key matches null params like the initial state.
+   * @param getState getState of the store
+   * @param params Loader params
+   * @returns True if the params match
+   */
+  const isLoadedParams = (
+    getState: () => IRootState,
+    params: ILoaderParams
+  ): boolean => {
+    const { key } = selectSlice(getState());
+    const loaded = loadedParams.get(getState);
+    if (loaded && loaded.key === key) {
+      return paramsEqual(loaded.params, params);
+    }
+    return key === null ? params === null : key === serializeParams(params);
+  };
+
+  /**
+   * Returns the params of the most recently started load in a store.
+   * Without a record for the store (e.g. for state hydrated from the server) the current loader params are returned if they match the key.
+   * @param getState getState of the store
+   * @returns Loader params, or undefined if they're unknown
+   */
+  const findLoadedParams = (
+    getState: () => IRootState
+  ): ILoaderParams | undefined => {
+    const state = getState();
+    const { key } = selectSlice(state);
+    const loaded = loadedParams.get(getState);
+    if (loaded && loaded.key === key) {
+      return loaded.params;
+    }
+    const params = loaderParamsSelector ? loaderParamsSelector(state) : null;
+    return key !== null && key === serializeParams(params) ? params : undefined;
+  };
+
+  /**
+   * Thunk action that returns the params of the most recently started load.
+   * @returns Action which returns the params, or undefined if they're unknown
+   */
+  const getLoadedParams =
+    () =>
+    (
+      dispatch: Dispatch,
+      getState: () => IRootState
+    ): ILoaderParams | undefined =>
+      findLoadedParams(getState);
+
+  const { persist } = options;
+  const persistKey = persist?.key ?? `monitoredSlice/${options.name}`;
+
+  /**
+   * Writes to or removes from storage in the background, ignoring failures (e.g. exceeding a quota) since persisting is best effort.
+   * @param write Function which writes to storage
+   */
+  const writeStorage = (write: () => void | Promise<void>): void => {
+    Promise.resolve()
+      .then(write)
+      .catch(() => undefined);
+  };
+
+  /**
+   * Persists the current data, unless it's stale, loading, or has pending optimistic updates, so a half-loaded state is never persisted.
+   * @param getState getState of the store
+   */
+  const persistData = (getState: () => IRootState): void => {
+    const { stale, loading, pendingUpdates, data, fetchedAt } = selectSlice(
+      getState()
+    );
+    if (!persist || stale || loading || pendingUpdates || fetchedAt === null) {
+      return;
+    }
+    const value = JSON.stringify({
+      version: persist.version ?? 0,
+      data: fromStored(data),
+      fetchedAt,
+      params: findLoadedParams(getState),
+    });
+    writeStorage(() => persist.storage.setItem(persistKey, value));
+  };
+
+  /**
+   * Thunk action that restores persisted data as stale data, dropping it if its version doesn't match or it's older than maxAge.
+   * It's only restored if nothing was loaded in the meantime, and only for the params of an in-flight load.
+   * @returns Action which resolves once persisted data is restored or dropped, synchronously with synchronous storage
+   */
+  const rehydrate =
     () =>
     async (dispatch: Dispatch, getState: () => IRootState): Promise<void> => {
+      if (!persist) {
+        return;
+      }
+      const { storage, version = 0, maxAge } = persist;
+      let persisted: {
+        version: number;
+        data: IDataType;
+        fetchedAt: number;
+        params: ILoaderParams;
+      } | null;
+      try {
+        const item = storage.getItem(persistKey);
+        // Synchronous storage isn't awaited so the data is restored before the first render
+        const value =
+          typeof (item as Promise<string | null>)?.then === 'function'
+            ? await item
+            : (item as string | null);
+        persisted = value === null ? null : JSON.parse(value);
+      } catch (err) {
+        return;
+      }
+      if (!persisted) {
+        return;
+      }
+      if (
+        persisted.version !== version ||
+        (maxAge !== undefined && now() - persisted.fetchedAt > maxAge)
+      ) {
+        writeStorage(() => storage.removeItem(persistKey));
+        return;
+      }
+      const { fetchedAt, loading, key } = selectSlice(getState());
+      if (
+        fetchedAt === null &&
+        ((!loading && key === null) ||
+          isLoadedParams(getState, persisted.params))
+      ) {
+        dispatch(
+          slice.actions.rehydrate({
+            data: persisted.data,
+            fetchedAt: persisted.fetchedAt,
+            providedTags: getProvidedTags(persisted.data, persisted.params),
+            key: serializeParams(persisted.params),
+          })
+        );
+      }
+    };
+
+  /**
+   * In-flight load requests, one per store (keyed by the store's getState).
+   */
+  const requests = new WeakMap<
+    () => IRootState,
+    { controller: AbortController; promise: Promise<void> }
+  >();
+
+  /**
+   * Aborts the in-flight load request for a store, if any.
+   * @param getState getState of the store
+   */
+  const abortRequest = (getState: () => IRootState): void => {
+    requests.get(getState)?.controller.abort();
+    requests.delete(getState);
+  };
+
+  /**
+   * Thunk action that aborts the in-flight load if the slice is no longer being monitored.
+   * @returns Action
+   */
+  const abortUnmonitored =
+    () =>
+    (dispatch: Dispatch, getState: () => IRootState): void => {
+      const state = getState();
+      if (selectIsMonitored(state) || !requests.has(getState)) {
+        return;
+      }
+      abortRequest(getState);
+      if (selectLoading(state)) {
+        dispatch(slice.actions.cancel(null));
+      }
+    };
+
+  /**
+   * Thunk action that marks data (including cached entries) as stale, aborting the in-flight load it supersedes.
+   * @returns Action
+   */
+  const makeStale =
+    () =>
+    (dispatch: Dispatch, getState: () => IRootState): void => {
+      abortRequest(getState);
+      dispatch(slice.actions.makeStale(null));
+    };
+
+  const { syncTimeout = 10000 } = options;
+
+  /**
+   * Requests which wait for another tab's load rather than loading, they're aborted once it settles.
+   */
+  const remoteRequests = new WeakSet<{
+    controller: AbortController;
+    promise: Promise<void>;
+  }>();
+
+  /**
+   * Marks the slice as loading while another tab loads the current params, so loads are deduplicated against it until its data arrives.
+   * Nothing happens if this tab is already loading itself, and this tab loads itself if the other tab's data doesn't arrive within syncTimeout.
+   * @param dispatch dispatch of the store
+   * @param getState getState of the store
+   * @param params Loader params the other tab is loading
+   */
+  const waitForRemoteLoad = (
+    dispatch: Dispatch,
+    getState: () => IRootState,
+    params: ILoaderParams
+  ): void => {
+    const state = getState();
+    const current = requests.get(getState);
+    if (
+      (current && !remoteRequests.has(current)) ||
+      !selectEnabled(state) ||
+      (keyed && selectSlice(state).key !== serializeParams(params))
+    ) {
+      return;
+    }
+    abortRequest(getState);
+    const controller = new AbortController();
+    const request = {
+      controller,
+      promise: new Promise<void>((resolve) =>
+        controller.signal.addEventListener('abort', () => resolve())
+      ),
+    };
+    remoteRequests.add(request);
+    requests.set(getState, request);
+    const timer = setTimeout(
+      () => stopWaiting(dispatch, getState),
+      syncTimeout
+    );
+    controller.signal.addEventListener('abort', () => clearTimeout(timer));
+    dispatch(slice.actions.makeLoading({ key: trackParams(getState, params) }));
+  };
+
+  /**
+   * Stops waiting for another tab's load, leaving the (still stale) data to be loaded by this tab.
+   * @param dispatch dispatch of the store
+   * @param getState getState of the store
+   */
+  const stopWaiting = (
+    dispatch: Dispatch,
+    getState: () => IRootState
+  ): void => {
+    const request = requests.get(getState);
+    if (request && remoteRequests.has(request)) {
+      abortRequest(getState);
+      dispatch(slice.actions.cancel(null));
+    }
+  };
+
+  /**
+   * Thunk action that applies a message from another tab.
+   * Data the other tab loaded replaces this tab's data (superseding any load in-flight) if it was loaded for this tab's params, compared by their keys.
+   * @param message Message from another tab
+   * @returns Action
+   */
+  const receiveSync =
+    (message: MonitoredSyncMessage) =>
+    (dispatch: Dispatch, getState: () => IRootState): void => {
       const state = getState();
-      const loading = selectLoading(state);
-      const stale = selectStale(state);
       const params = loaderParamsSelector ? loaderParamsSelector(state) : null;
+      const { key } = selectSlice(state);
+      switch (message.type) {
+        case 'makeStale':
+          makeStale()(dispatch, getState);
+          // The other tab is about to reload, so share its load if it's for this tab's params
+          if (message.monitored && serializeParams(params) === message.key) {
+            waitForRemoteLoad(dispatch, getState, params);
+          }
+          return;
+        case 'loading':
+          if (serializeParams(params) === message.key) {
+            waitForRemoteLoad(dispatch, getState, params);
+          }
+          return;
+        case 'fulfill': {
+          if (key !== message.key) {
+            return;
+          }
+          abortRequest(getState);
+          let data = message.data as IDataType;
+          // Keep pending optimistic updates applied on top of the loaded data
+          const updates = optimisticUpdates.get(getState);
+          if (updates) {
+            updates.base = data;
+            data = rebase(updates);
+          }
+          dispatch(
+            slice.actions.fulfill({
+              data,
+              fetchedAt: message.fetchedAt,
+              providedTags: message.providedTags,
+            })
+          );
+          return;
+        }
+        case 'settled':
+          if (key === message.key) {
+            stopWaiting(dispatch, getState);
+          }
+          return;
+      }
+    };
+
+  /**
+   * Thunk action that conditionally dispatches actions to load data if it's stale and not loading, or if the loader params have changed.
+   * Nothing is loaded while the enabled selector returns false, and dependencies are loaded first.
+   * @param loadOptions Optionally force loading and/or override the loader params
+   * @returns Action which resolves once the load (or the load already in-flight) settles
+   */
+  const load =
+    (loadOptions: ILoadOptions<ILoaderParams> = {}) =>
+    async (dispatch: Dispatch, getState: () => IRootState): Promise<void> => {
+      if (!selectEnabled(getState())) {
+        return requests.get(getState)?.promise;
+      }
+      if (!selectDependenciesReady(getState())) {
+        await Promise.all(
+          dependsOn.map((dependency) =>
+            dependency.actions.load()(
+              dispatch as ThunkDispatch<IRootState, unknown, AnyAction>,
+              getState,
+              undefined
+            )
+          )
+        );
+        // Keep waiting (e.g. for a failed dependency to be reloaded) rather than loading with incomplete params
+        if (!selectDependenciesReady(getState())) {
+          return;
+        }
+      }
+      let state = getState();
+      const params =
+        'params' in loadOptions
+          ? loadOptions.params
+          : loaderParamsSelector
+          ? loaderParamsSelector(state)
+          : null;
+      const paramsCurrent = () => isLoadedParams(getState, params);
+
+      if (keyed) {
+        // Switch to the entry for the current params, which only needs loading if it's stale
+        const key = serializeParams(params);
+        if (selectSlice(state).key !== key) {
+          abortRequest(getState);
+          optimisticUpdates.delete(getState);
+          trackParams(getState, params);
+          dispatch(slice.actions.switchKey({ key }));
+          state = getState();
+        }
+      }
+
+      const loading = selectLoading(state);
+      const stale = selectStale(state) || loadOptions.force;
+
+      if (!(stale && !loading) && paramsCurrent()) {
+        return requests.get(getState)?.promise;
+      }
+
+      const previousData = paramsCurrent()
+        ? fromStored(selectSlice(state).data)
+        : initialData;
+      abortRequest(getState);
+      const controller = new AbortController();
+      // A request is superseded if it's aborted, the params changed, or the slice was made stale in the middle of loading
+      const isCurrent = () =>
+        !controller.signal.aborted &&
+        paramsCurrent() &&
+        selectLoading(getState());
+
+      const request = { controller, promise: Promise.resolve() };
+      requests.set(getState, request);
+      dispatch(
+        slice.actions.makeLoading({ key: trackParams(getState, params) })
+      );
+      request.promise = (async () => {
+        try {
+          for (let attempt = 1; ; attempt++) {
+            try {
+              let data = await loader(params, controller.signal, previousData);
+              // Don't store the data if the request was superseded in the middle of loading
+              if (isCurrent()) {
+                // Keep pending optimistic updates applied on top of the loaded data
+                const updates = optimisticUpdates.get(getState);
+                if (updates) {
+                  updates.base = data;
+                  data = rebase(updates);
+                }
+                dispatch(
+                  slice.actions.fulfill({
+                    data,
+                    fetchedAt: now(),
+                    providedTags: getProvidedTags(data, params),
+                  })
+                );
+                persistData(getState);
+              }
+              return;
+            } catch (err) {
+              // Don't retry or store the error if the request was superseded in the middle of loading
+              if (!isCurrent()) {
+                return;
+              }
+              if (attempt < maxAttempts && shouldRetry(err, attempt)) {
+                await sleep(getRetryDelay(attempt));
+                if (!isCurrent()) {
+                  return;
+                }
+                dispatch(slice.actions.retry(null));
+                continue;
+              }
+              dispatch(
+                slice.actions.reject({ error: miniSerializeError(err) })
+              );
+              return;
+            }
+          }
+        } finally {
+          if (requests.get(getState) === request) {
+            requests.delete(getState);
+          }
+        }
+      })();
+      return request.promise;
+    };
+
+  /**
+   * Thunk action that loads data even if it's not stale.
+   * @returns Action which resolves once the load settles
+   */
+  const refetch = () => load({ force: true });
 
-      if ((stale && !loading) || !deepEqual(previousParams, params)) {
-        previousParams = params;
-        dispatch(slice.actions.makeLoading(null));
-        const data = await loader(params);
-        // Don't store the data if the params changed in the middle of loading
-        if (deepEqual(previousParams, params)) {
-          dispatch(slice.actions.fulfill({ data }));
+  /**
+   * Thunk action that loads data if needed and waits for any in-flight load to settle, loading again if it was superseded without being reloaded.
+   * Data which failed to load earlier is reloaded rather than rejecting with the earlier error.
+   * @param params Optional loader params to use instead of loaderParamsSelector
+   * @returns Action which resolves with the loaded data, or rejects with the load error (or a dependency's error, if loading is disabled, or if a load of other params superseded it)
+   */
+  const ensureLoaded =
+    (...params: [] | [ILoaderParams]) =>
+    async (
+      dispatch: Dispatch,
+      getState: () => IRootState
+    ): Promise<IDataType> => {
+      const selectRequestedParams = (state: IRootState) =>
+        params.length
+          ? params[0]
+          : loaderParamsSelector
+          ? loaderParamsSelector(state)
+          : null;
+      const initialSlice = selectSlice(getState());
+      const requestedKey = serializeParams(selectRequestedParams(getState()));
+      const entry =
+        initialSlice.key === requestedKey
+          ? initialSlice
+          : initialSlice.cache[requestedKey];
+
+      for (let force = Boolean(entry?.error); ; force = true) {
+        await load({ ...(params.length ? { params: params[0] } : {}), force })(
+          dispatch,
+          getState
+        );
+        // Wait for any load which superseded ours
+        let request = requests.get(getState);
+        while (request) {
+          await request.promise;
+          request = requests.get(getState);
+        }
+        const state = getState();
+        const { data, error, stale, fetchedAt } = selectSlice(state);
+        if (!selectEnabled(state)) {
+          throw miniSerializeError(new Error('Loading is disabled'));
+        }
+        // The data (and error) in the slot belong to whichever params were loaded last
+        if (!isLoadedParams(getState, selectRequestedParams(state))) {
+          throw miniSerializeError(
+            new Error('Superseded by a load of other params')
+          );
+        }
+        if (error) {
+          throw error;
+        }
+        if (!selectDependenciesReady(state)) {
+          throw (
+            selectDependencyError(state) ??
+            miniSerializeError(new Error('Dependencies are not loaded'))
+          );
+        }
+        if (!stale && fetchedAt !== null) {
+          return fromStored(data);
+        }
+        // The load was superseded (e.g. made stale) without anything reloading it
+      }
+    };
+
+  /**
+   * Optimistic updates awaiting their mutation, one record per store (keyed by the store's getState).
+   * base is the confirmed data which the pending recipes are applied on top of.
+   */
+  const optimisticUpdates = new WeakMap<
+    () => IRootState,
+    { base: IDataType; recipes: OptimisticRecipe<IDataType>[] }
+  >();
+
+  /**
+   * Applies pending optimistic recipes on top of confirmed data.
+   * @param updates Optimistic update record for a store
+   * @returns Data with pending recipes applied
+   */
+  const rebase = (updates: {
+    base: IDataType;
+    recipes: OptimisticRecipe<IDataType>[];
+  }): IDataType =>
+    updates.recipes.reduce(
+      (data, recipe) => createNextState(data, recipe) as IDataType,
+      updates.base
+    );
+
+  /**
+   * Thunk action that applies a recipe to the data immediately, then commits or rolls it back once the mutation settles.
+   * Loads which finish while the mutation is pending keep the recipe applied on top of the loaded data.
+   * @param recipe Immer recipe which edits the data
+   * @param mutation Promise for the server side mutation
+   * @param updateOptions Optionally replace the data with the mutation's result once it resolves
+   * @returns Action which resolves with the mutation's result, or rejects with its error after rolling back
+   */
+  const optimisticUpdate =
+    <IResult,>(
+      recipe: OptimisticRecipe<IDataType>,
+      mutation: Promise<IResult>,
+      updateOptions: IOptimisticUpdateOptions = {}
+    ) =>
+    async (
+      dispatch: Dispatch,
+      getState: () => IRootState
+    ): Promise<IResult> => {
+      const updates = optimisticUpdates.get(getState) ?? {
+        base: fromStored(selectSlice(getState()).data),
+        recipes: [],
+      };
+      optimisticUpdates.set(getState, updates);
+      updates.recipes.push(recipe);
+      dispatch(slice.actions.startOptimistic({ data: rebase(updates) }));
+
+      const settle = (confirm: (base: IDataType) => IDataType) => {
+        updates.recipes.splice(updates.recipes.indexOf(recipe), 1);
+        // Updates are dropped if the slice switched to other loader params in the middle of the mutation
+        if (optimisticUpdates.get(getState) !== updates) {
+          dispatch(slice.actions.settleOptimistic({}));
+          return;
+        }
+        updates.base = confirm(updates.base);
+        if (!updates.recipes.length) {
+          optimisticUpdates.delete(getState);
         }
+        dispatch(slice.actions.settleOptimistic({ data: rebase(updates) }));
+        persistData(getState);
+      };
+
+      try {
+        const result = await mutation;
+        settle((base) =>
+          updateOptions.replaceWithResult
+            ? (result as unknown as IDataType)
+            : (createNextState(base, recipe) as IDataType)
+        );
+        return result;
+      } catch (err) {
+        settle((base) => base);
+        throw err;
       }
     };
 
+  /**
+   * Active pollers for the slice, one per store (keyed by the store's getState).
+   */
+  const pollers = new WeakMap<
+    () => IRootState,
+    {
+      intervals: number[];
+      interval: number | null;
+      timer: ReturnType<typeof setInterval> | undefined;
+    }
+  >();
+
+  /**
+   * Registers a monitor's poll interval, sharing one timer per store which runs at the shortest requested interval.
+   * @param dispatch Dispatch of the store to poll
+   * @param getState getState of the store to poll
+   * @param interval Requested poll interval
+   * @returns Function which unregisters the poll interval, stopping the timer after the last one
+   */
+  const startPolling = (
+    dispatch: ThunkDispatch<IRootState, unknown, AnyAction>,
+    getState: () => IRootState,
+    interval: number
+  ): (() => void) => {
+    const poller = pollers.get(getState) ?? {
+      intervals: [],
+      interval: null,
+      timer: undefined,
+    };
+    pollers.set(getState, poller);
+
+    const restart = () => {
+      const nextInterval = poller.intervals.length
+        ? Math.min(...poller.intervals)
+        : null;
+      if (nextInterval === poller.interval) {
+        return;
+      }
+      clearInterval(poller.timer);
+      poller.interval = nextInterval;
+      poller.timer =
+        nextInterval === null
+          ? undefined
+          : setInterval(() => dispatch(refetch()), nextInterval);
+    };
+
+    poller.intervals.push(interval);
+    restart();
+    return () => {
+      poller.intervals.splice(poller.intervals.indexOf(interval), 1);
+      restart();
+    };
+  };
+
+  /**
+   * Selector which returns the serialized params of the most recently started load.
+   */
+  const selectKey = createSelector(selectSlice, (slice) => slice.key);
+
+  /**
+   * Selector which returns true only if data was explicitly marked as stale (rather than having expired).
+   */
+  const selectMarkedStale = createSelector(selectSlice, (slice) => slice.stale);
+
+  /**
+   * Hook which checks if the current loader params match the params of the most recently started load in the store.
+   * @returns True if the params match
+   */
+  const useParamsCurrent = (): boolean => {
+    const store = useStore<IRootState>();
+    const params = useSelector(loaderParamsSelector ?? selectNull);
+    // Rerenders whenever a load starts, since the params it started with aren't in the store
+    useSelector(selectKey);
+    return isLoadedParams(store.getState, params);
+  };
+
+  /**
+   * Hook which monitors every dependency, composed once since the dependencies never change.
+   */
+  const useDependencies = dependsOn.reduce<() => void>(
+    (useOtherDependencies, dependency) =>
+      function useDependency() {
+        useOtherDependencies();
+        dependency.hooks.useMonitoredData();
+      },
+    () => undefined
+  );
+
   /**
    * Hook to monitor a slice, which is required to actually load data for the slice.
-   * @returns data, loading flag, and makeStale function
+   * @param selector Optional selector which projects the data, or undefined for all data
+   * @param equalityFn Optional function which compares projected data to avoid rerendering
+   * @param hookOptions Optional overrides for the slice's polling configuration and enabled flag
+   * @returns data, loading and status flags, error, attempt counts, and makeStale/refetch functions
    */
-  const useMonitoredData = (): IUseMonitoredData<IDataType> => {
+  const useMonitor = (
+    selector: ((data: IDataType) => unknown) | undefined,
+    equalityFn: ((left: unknown, right: unknown) => boolean) | undefined,
+    {
+      pollInterval = options.pollInterval,
+      enabled: hookEnabled = true,
+    }: IUseMonitoredDataOptions
+  ): IUseMonitoredData<unknown> => {
     const dispatch = useDispatch();
+    const store = useStore<IRootState>();
+
+    const selectProjectedData = useMemo(
+      () => (selector ? createDataSelector(selector) : selectData),
+      [selector]
+    );
 
     const stale = useSelector(selectStale);
+    const markedStale = useSelector(selectMarkedStale);
     const loading = useSelector(selectLoading);
-    const data = useSelector(selectData);
+    const data = useSelector(selectProjectedData, equalityFn);
+    const error = useSelector(selectError);
+    const attempt = useSelector(selectAttempt);
+    const fetchedAt = useSelector(selectFetchedAt);
+    const hasData = useSelector(selectHasData);
+    const enabled = useSelector(selectEnabled) && hookEnabled;
+    const dependenciesReady = useSelector(selectDependenciesReady);
     const params = useSelector(loaderParamsSelector ?? selectNull);
+    const paramsCurrent = useParamsCurrent();
+
+    useDependencies();
+
+    // Effects don't run during server side rendering, so register with the collector while rendering instead
+    useContext(MonitoredSliceCollectorContext)?.collect(monitoredSlice);
 
     useEffect(() => {
-      if ((stale && !loading) || !deepEqual(previousParams, params)) {
+      dispatch(slice.actions.addMonitor(null));
+      return () => {
+        dispatch(slice.actions.removeMonitor(null));
+        dispatch(abortUnmonitored());
+      };
+    }, [dispatch]);
+
+    // Only explicitly stale data is reloaded, expired data isn't since a failed reload leaves it expired and would be retried in a loop
+    useEffect(() => {
+      if (!enabled) {
+        return;
+      }
+      if ((markedStale && !loading) || !paramsCurrent) {
         dispatch(load());
       }
-    }, [stale, loading, params, dispatch]);
+    }, [
+      enabled,
+      dependenciesReady,
+      markedStale,
+      loading,
+      params,
+      paramsCurrent,
+      dispatch,
+    ]);
 
-    const makeStale = useCallback(() => {
-      dispatch(slice.actions.makeStale(null));
+    // Data which expired before the monitor mounted (or was enabled) is loaded once
+    useEffect(() => {
+      if (enabled) {
+        dispatch(load());
+      }
+    }, [enabled, dispatch]);
+
+    useEffect(() => {
+      if (staleTime === undefined || markedStale || fetchedAt === null) {
+        return;
+      }
+      // Data which is already expired isn't marked as stale, otherwise data which expires as soon as it's loaded (staleTime: 0) would be reloaded continuously
+      const expiresIn = fetchedAt + staleTime - now();
+      if (expiresIn <= 0) {
+        return;
+      }
+      // Mark as stale once the data expires so the monitor reloads it
+      const timeout = setTimeout(() => {
+        dispatch(makeStale());
+      }, expiresIn);
+      return () => clearTimeout(timeout);
+    }, [markedStale, fetchedAt, dispatch]);
+
+    useEffect(() => {
+      if (!pollInterval || !enabled) {
+        return;
+      }
+      return startPolling(
+        dispatch as ThunkDispatch<IRootState, unknown, AnyAction>,
+        store.getState,
+        pollInterval
+      );
+    }, [pollInterval, enabled, dispatch, store]);
+
+    const makeStaleData = useCallback(() => {
+      dispatch(makeStale());
     }, [dispatch]);
 
+    const refetchData = useCallback(() => {
+      dispatch(refetch());
+    }, [dispatch]);
+
+    // Stale data isn't reported as loading while disabled since it won't be loaded, nor is expired data which failed to reload
+    const pending = (markedStale && enabled) || loading;
+
     return {
       data,
-      loading: stale || loading,
-      makeStale,
+      loading: pending,
+      isInitialLoading: pending && !hasData,
+      isFetching: loading,
+      isStale: stale,
+      hasData,
+      status: getStatus(pending, error, hasData, enabled),
+      error,
+      attempt,
+      maxAttempts,
+      makeStale: makeStaleData,
+      refetch: refetchData,
     };
   };
 
   /**
-   * Context which provides data, loading flag, and makeStale function.
+   * Splits useMonitoredData arguments, which either start with a selector or only contain options.
+   * @param args Hook arguments
+   * @returns Selector, equality function, and options
+   */
+  const parseHookArgs = (
+    args: unknown[]
+  ): [
+    ((data: IDataType) => unknown) | undefined,
+    ((left: unknown, right: unknown) => boolean) | undefined,
+    IUseMonitoredDataOptions
+  ] =>
+    typeof args[0] === 'function'
+      ? [
+          args[0] as (data: IDataType) => unknown,
+          args[1] as (left: unknown, right: unknown) => boolean,
+          (args[2] ?? {}) as IUseMonitoredDataOptions,
+        ]
+      : [undefined, undefined, (args[0] ?? {}) as IUseMonitoredDataOptions];
+
+  /**
+   * Hook to monitor a slice, optionally projecting its data with a selector so components only rerender when the projection changes.
+   * @param args Optional selector and equality function, followed by optional overrides for the slice's polling configuration and enabled flag
+   * @returns data, loading and status flags, error, attempt counts, and makeStale/refetch functions
+   */
+  const useMonitoredData = ((...args: unknown[]) =>
+    useMonitor(...parseHookArgs(args))) as IUseMonitoredDataHook<IDataType>;
+
+  /**
+   * Hook to monitor a slice which suspends until data is loaded, for use within a Suspense boundary.
+   * @param args Optional selector and equality function, followed by optional overrides for the slice's polling configuration and enabled flag
+   * @returns data, error, attempt counts, and makeStale/refetch functions, loading is always false
+   */
+  const useMonitoredDataSuspense = ((...args: unknown[]) => {
+    const dispatch = useDispatch();
+    const [selector, equalityFn, hookOptions] = parseHookArgs(args);
+    const hookData = useMonitor(selector, equalityFn, hookOptions);
+    const enabled = useSelector(selectEnabled) && hookOptions.enabled !== false;
+    const paramsCurrent = useParamsCurrent();
+    const dependencyError = useSelector(selectDependencyError);
+
+    if (!enabled) {
+      return hookData;
+    }
+    // Nothing loads until the dependency is reloaded, so suspending would never end
+    if (dependencyError) {
+      throw dependencyError;
+    }
+    if (hookData.loading || !paramsCurrent) {
+      // Effects don't run while suspended, so start the load here, outside of rendering so no other components update mid-render
+      throw Promise.resolve()
+        .then(() => dispatch(ensureLoaded()))
+        .catch(() => undefined);
+    }
+    if (hookData.error) {
+      throw hookData.error;
+    }
+    return hookData;
+  }) as IUseMonitoredDataHook<IDataType>;
+
+  /**
+   * Context which provides data, loading and status flags, error, attempt counts, and makeStale/refetch functions.
    */
   const Context = React.createContext<IUseMonitoredData<IDataType>>(undefined);
 
   /**
    * Context provider which provides monitoring for a slice as well as providing Context data to consumers.
-   * @param props Accepts children prop which it renders
+   * @param props Accepts children prop which it renders and optional overrides for the slice's polling configuration and enabled flag
    * @returns ReactElement
    */
-  const ContextProvider = ({ children }: ContextProviderProps): JSX.Element => {
-    const hookData = useMonitoredData();
+  const ContextProvider = ({
+    children,
+    pollInterval,
+    enabled,
+  }: ContextProviderProps): JSX.Element => {
+    const hookData = useMonitoredData({ pollInterval, enabled });
 
     return <Context.Provider value={hookData}>{children}</Context.Provider>;
   };
 
-  return {
+  const monitoredSlice = {
     slice,
-    selectors: { selectSlice, selectStale, selectLoading, selectData },
-    hooks: { useMonitoredData },
+    selectors: {
+      selectSlice,
+      selectStale,
+      selectLoading,
+      selectData,
+      selectError,
+      selectAttempt,
+      selectFetchedAt,
+      selectMonitorCount,
+      selectIsMonitored,
+      selectHasData,
+      selectIsFetching,
+      selectIsInitialLoading,
+      selectStatus,
+      selectEnabled,
+      selectIds,
+      selectById,
+      selectAll,
+      createDataSelector,
+    },
+    actions: {
+      load,
+      refetch,
+      makeStale,
+      ensureLoaded,
+      getLoadedParams,
+      rehydrate,
+      receiveSync,
+      optimisticUpdate,
+    },
+    hooks: { useMonitoredData, useMonitoredDataSuspense },
     context: { Context, ContextProvider },
   };
+
+  return monitoredSlice;
 }
@@ -0,0 +1,157 @@
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { act, waitFor } from '@testing-library/react';
+import { renderHook } from '@testing-library/react-hooks';
+import {
+  createMonitoredSlice,
+  IMonitoredState,
+  onFocus,
+  onReconnect,
+  setupMonitoredListeners,
+} from './';
+
+interface ITestItem {
+  id: string;
+  name: string;
+}
+
+type ITestState = IMonitoredState<ITestItem[]>;
+
+interface IRootState {
+  testSlice: ITestState;
+}
+
+const buildFakeSource = () => {
+  const listeners: (() => void)[] = [];
+  const source = jest.fn((listener: () => void) => {
+    listeners.push(listener);
+    return () => listeners.splice(listeners.indexOf(listener), 1);
+  });
+  const emit = () => listeners.forEach((listener) => listener());
+  return { source, emit, listeners };
+};
+
+describe('listeners', () => {
+  describe('setupMonitoredListeners', () => {
+    it('dispatches onFocus and onReconnect from the provided sources', () => {
+      const dispatch = jest.fn();
+      const focus = buildFakeSource();
+      const reconnect = buildFakeSource();
+      setupMonitoredListeners(dispatch, {
+        focus: focus.source,
+        reconnect: reconnect.source,
+      });
+      focus.emit();
+      expect(dispatch).toBeCalledWith(onFocus());
+      reconnect.emit();
+      expect(dispatch).toBeCalledWith(onReconnect());
+      expect(dispatch).toBeCalledTimes(2);
+    });
+
+    it('unsubscribes from the provided sources', () => {
+      const focus = buildFakeSource();
+      const reconnect = buildFakeSource();
+      const unsubscribe = setupMonitoredListeners(jest.fn(), {
+        focus: focus.source,
+        reconnect: reconnect.source,
+      });
+      unsubscribe();
+      expect(focus.listeners).toHaveLength(0);
+      expect(reconnect.listeners).toHaveLength(0);
+    });
+
+    it('listens to window focus, visibility and online events by default', () => {
+      const dispatch = jest.fn();
+      const unsubscribe = setupMonitoredListeners(dispatch);
+      window.dispatchEvent(new Event('focus'));
+      window.dispatchEvent(new Event('visibilitychange'));
+      expect(dispatch).toBeCalledWith(onFocus());
+      expect(dispatch).toBeCalledTimes(2);
+      window.dispatchEvent(new Event('online'));
+      expect(dispatch).toBeCalledWith(onReconnect());
+      unsubscribe();
+      window.dispatchEvent(new Event('focus'));
+      window.dispatchEvent(new Event('online'));
+      expect(dispatch).toBeCalledTimes(3);
+    });
+
+    it('reloads monitored slices with refetchOnFocus', async () => {
+      const loader = jest.fn().mockResolvedValue([]);
+      const testSlice = createMonitoredSlice<
+        IRootState,
+        ITestItem[],
+        ITestState
+      >(
+        {
+          name: 'testSlice',
+          initialState: {},
+          reducers: {},
+          refetchOnFocus: true,
+        },
+        [],
+        loader
+      );
+      const store = configureStore({
+        reducer: { testSlice: testSlice.slice.reducer },
+      });
+      const focus = buildFakeSource();
+      setupMonitoredListeners(store.dispatch, { focus: focus.source });
+      const rendered = renderHook(() => testSlice.hooks.useMonitoredData(), {
+        wrapper: ({ children }) => (
+          <Provider store={store}>{children}</Provider>
+        ),
+      });
+      await waitFor(() =>
+        expect(rendered.result.current.status).toEqual('success')
+      );
+      focus.emit();
+      await waitFor(() => expect(loader).toBeCalledTimes(2));
+      rendered.unmount();
+      focus.emit();
+      expect(testSlice.selectors.selectStale(store.getState())).toEqual(false);
+    });
+
+    it('reloads once when focus events fire in quick succession', async () => {
+      const loader = jest.fn().mockResolvedValue([]);
+      const testSlice = createMonitoredSlice<
+        IRootState,
+        ITestItem[],
+        ITestState
+      >(
+        {
+          name: 'testSlice',
+          initialState: {},
+          reducers: {},
+          refetchOnFocus: true,
+        },
+        [],
+        loader
+      );
+      const store = configureStore({
+        reducer: { testSlice: testSlice.slice.reducer },
+      });
+      const focus = buildFakeSource();
+      setupMonitoredListeners(store.dispatch, { focus: focus.source });
+      const rendered = renderHook(() => testSlice.hooks.useMonitoredData(), {
+        wrapper: ({ children }) => (
+          <Provider store={store}>{children}</Provider>
+        ),
+      });
+      await waitFor(() =>
+        expect(rendered.result.current.status).toEqual('success')
+      );
+      loader.mockClear();
+      act(() => {
+        focus.emit();
+      });
+      act(() => {
+        focus.emit();
+      });
+      await waitFor(() =>
+        expect(rendered.result.current.status).toEqual('success')
+      );
+      expect(loader).toBeCalledTimes(1);
+      expect(loader.mock.calls[0][1].aborted).toEqual(false);
+    });
+  });
+});
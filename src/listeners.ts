@@ -0,0 +1,87 @@
+import { createAction, Dispatch } from '@reduxjs/toolkit';
+
+/**
+ * Action which marks every monitored slice with refetchOnFocus as stale while it's being monitored.
+ */
+export const onFocus = createAction('monitoredSlice/onFocus');
+
+/**
+ * Action which marks every monitored slice with refetchOnReconnect as stale while it's being monitored.
+ */
+export const onReconnect = createAction('monitoredSlice/onReconnect');
+
+/**
+ * Subscribes a listener to an event, returning a function which unsubscribes it.
+ */
+export type MonitoredEventSource = (listener: () => void) => () => void;
+
+/**
+ * Event sources used by setupMonitoredListeners.
+ */
+export interface IMonitoredListenerSources {
+  /**
+   * Calls the listener when the app regains focus. Default: window focus and document becoming visible
+   */
+  focus?: MonitoredEventSource;
+
+  /**
+   * Calls the listener when the network comes back online. Default: window online
+   */
+  reconnect?: MonitoredEventSource;
+}
+
+/**
+ * Event source which calls the listener when the window regains focus or the document becomes visible.
+ * @param listener Listener to call
+ * @returns Function which unsubscribes the listener
+ */
+const windowFocus: MonitoredEventSource = (listener) => {
+  if (typeof window === 'undefined' || !window.addEventListener) {
+    return () => undefined;
+  }
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      listener();
+    }
+  };
+  window.addEventListener('focus', listener, false);
+  window.addEventListener('visibilitychange', handleVisibilityChange, false);
+  return () => {
+    window.removeEventListener('focus', listener);
+    window.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+};
+
+/**
+ * Event source which calls the listener when the browser comes back online.
+ * @param listener Listener to call
+ * @returns Function which unsubscribes the listener
+ */
+const windowOnline: MonitoredEventSource = (listener) => {
+  if (typeof window === 'undefined' || !window.addEventListener) {
+    return () => undefined;
+  }
+  window.addEventListener('online', listener, false);
+  return () => window.removeEventListener('online', listener);
+};
+
+/**
+ * Dispatches onFocus and onReconnect actions when their events occur, so monitored slices with refetchOnFocus/refetchOnReconnect reload.
+ * @param dispatch Dispatch of the store
+ * @param sources Optional event sources to use instead of the browser's, e.g. for React Native or tests
+ * @returns Function which removes the listeners
+ */
+export function setupMonitoredListeners(
+  dispatch: Dispatch,
+  {
+    focus = windowFocus,
+    reconnect = windowOnline,
+  }: IMonitoredListenerSources = {}
+): () => void {
+  const unsubscribeFocus = focus(() => dispatch(onFocus()));
+  const unsubscribeReconnect = reconnect(() => dispatch(onReconnect()));
+  return () => {
+    unsubscribeFocus();
+    unsubscribeReconnect();
+  };
+}
@@ -0,0 +1,282 @@
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import { waitFor } from '@testing-library/react';
+import { renderHook } from '@testing-library/react-hooks';
+import {
+  createIndexedDBStorage,
+  createMemoryStorage,
+  createMonitoredSlice,
+  IMonitoredState,
+  IMonitoredStorage,
+  IPersistOptions,
+} from './';
+
+interface ITestItem {
+  id: string;
+  name: string;
+}
+
+type ITestState = IMonitoredState<ITestItem[]>;
+
+interface IRootState {
+  testSlice: ITestState;
+}
+
+const LOADED_DATA = [{ id: 'id1', name: 'name1' }];
+
+const buildStore = (
+  persist: IPersistOptions,
+  loader = jest.fn().mockResolvedValue(LOADED_DATA),
+  now = () => 1000
+) => {
+  const monitoredSlice = createMonitoredSlice<
+    IRootState,
+    ITestItem[],
+    ITestState,
+    string | null
+  >(
+    { name: 'testSlice', initialState: {}, reducers: {}, persist, now },
+    [],
+    loader
+  );
+  const store = configureStore({
+    reducer: { testSlice: monitoredSlice.slice.reducer },
+  });
+  return { ...monitoredSlice, store };
+};
+
+const persistedItem = (value: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    version: 0,
+    data: LOADED_DATA,
+    fetchedAt: 500,
+    params: 'factory1',
+    ...value,
+  });
+
+/**
+ * Builds a fake IndexedDB which keeps object stores in memory and settles requests asynchronously, like the real one.
+ */
+const buildFakeIndexedDB = ({
+  failOpen = false,
+  failRequests = false,
+} = {}) => {
+  const stores = new Map<string, Map<string, unknown>>();
+  const settle = (run: () => unknown, error: Error | null) => {
+    const request: Record<string, any> = {};
+    setTimeout(() => {
+      if (error) {
+        request.error = error;
+        request.onerror();
+        return;
+      }
+      request.result = run();
+      request.onsuccess();
+    });
+    return request;
+  };
+  const database = {
+    createObjectStore: jest.fn((name: string) => {
+      stores.set(name, new Map());
+    }),
+    transaction: (name: string) => ({
+      objectStore: () => {
+        const store = stores.get(name);
+        const failure = failRequests ? new Error('request failed') : null;
+        return {
+          get: (key: string) => settle(() => store.get(key), failure),
+          put: (value: unknown, key: string) =>
+            settle(() => store.set(key, value), failure),
+          delete: (key: string) => settle(() => store.delete(key), failure),
+        };
+      },
+    }),
+  };
+  const factory = {
+    open: jest.fn(() => {
+      const request: Record<string, any> = {};
+      setTimeout(() => {
+        if (failOpen) {
+          request.error = new Error('open failed');
+          request.onerror();
+          return;
+        }
+        request.result = database;
+        // Only a new database is upgraded
+        if (!stores.size) {
+          request.onupgradeneeded();
+        }
+        request.onsuccess();
+      });
+      return request;
+    }),
+  };
+  return { factory: factory as unknown as IDBFactory, database };
+};
+
+describe('persistence', () => {
+  describe('createMemoryStorage', () => {
+    it('gets, sets and removes items', () => {
+      const storage = createMemoryStorage();
+      expect(storage.getItem('key')).toEqual(null);
+      storage.setItem('key', 'value');
+      expect(storage.getItem('key')).toEqual('value');
+      storage.removeItem('key');
+      expect(storage.getItem('key')).toEqual(null);
+    });
+  });
+
+  describe('createIndexedDBStorage', () => {
+    it('gets, sets and removes items', async () => {
+      const { factory, database } = buildFakeIndexedDB();
+      const storage = createIndexedDBStorage('database', 'store', factory);
+      expect(await storage.getItem('key')).toEqual(null);
+      await storage.setItem('key', 'value');
+      expect(await storage.getItem('key')).toEqual('value');
+      await storage.removeItem('key');
+      expect(await storage.getItem('key')).toEqual(null);
+      expect(factory.open).toBeCalledTimes(1);
+      expect(factory.open).toBeCalledWith('database', 1);
+      expect(database.createObjectStore).toBeCalledWith('store');
+    });
+
+    it('rejects if a request fails', async () => {
+      const { factory } = buildFakeIndexedDB({ failRequests: true });
+      const storage = createIndexedDBStorage('database', 'store', factory);
+      await expect(storage.setItem('key', 'value')).rejects.toEqual(
+        new Error('request failed')
+      );
+    });
+
+    it('rejects if the database fails to open, opening it again on the next request', async () => {
+      const { factory } = buildFakeIndexedDB({ failOpen: true });
+      const storage = createIndexedDBStorage('database', 'store', factory);
+      await expect(storage.getItem('key')).rejects.toEqual(
+        new Error('open failed')
+      );
+      await expect(storage.getItem('key')).rejects.toEqual(
+        new Error('open failed')
+      );
+      expect(factory.open).toBeCalledTimes(2);
+    });
+  });
+
+  describe('persist', () => {
+    it('persists loaded data, fetchedAt and params', async () => {
+      const storage = createMemoryStorage();
+      const { actions, store } = buildStore({ storage, version: 2 });
+      await store.dispatch(actions.load({ params: 'factory1' }));
+      expect(
+        JSON.parse(storage.getItem('monitoredSlice/testSlice') as string)
+      ).toEqual({
+        version: 2,
+        data: LOADED_DATA,
+        fetchedAt: 1000,
+        params: 'factory1',
+      });
+    });
+
+    it('does not persist data with pending optimistic updates', async () => {
+      const storage = createMemoryStorage();
+      const { actions, store } = buildStore({ storage, key: 'widgets' });
+      let resolveMutation: () => void;
+      const mutation = store.dispatch(
+        actions.optimisticUpdate((draft) => {
+          draft.push({ id: 'id2', name: 'name2' });
+        }, new Promise<void>((resolve) => (resolveMutation = resolve)))
+      );
+      await store.dispatch(actions.load());
+      expect(storage.getItem('widgets')).toEqual(null);
+      resolveMutation();
+      await mutation;
+      expect(JSON.parse(storage.getItem('widgets') as string).data).toEqual([
+        ...LOADED_DATA,
+        { id: 'id2', name: 'name2' },
+      ]);
+    });
+  });
+
+  describe('rehydrate', () => {
+    it('restores persisted data as stale data before rendering', () => {
+      const storage = createMemoryStorage();
+      storage.setItem('monitoredSlice/testSlice', persistedItem());
+      const { actions, selectors, store } = buildStore({ storage });
+      store.dispatch(actions.rehydrate());
+      expect(selectors.selectData(store.getState())).toEqual(LOADED_DATA);
+      expect(selectors.selectFetchedAt(store.getState())).toEqual(500);
+      expect(selectors.selectStale(store.getState())).toEqual(true);
+      expect(selectors.selectStatus(store.getState())).toEqual('refreshing');
+      expect(store.getState().testSlice.key).toEqual('"factory1"');
+    });
+
+    it('restores persisted data from asynchronous storage', async () => {
+      const items: Record<string, string> = {
+        'monitoredSlice/testSlice': persistedItem(),
+      };
+      const storage: IMonitoredStorage = {
+        getItem: (key) => Promise.resolve(items[key] ?? null),
+        setItem: jest.fn().mockResolvedValue(undefined),
+        removeItem: jest.fn().mockResolvedValue(undefined),
+      };
+      const { actions, selectors, store } = buildStore({ storage });
+      await store.dispatch(actions.rehydrate());
+      expect(selectors.selectData(store.getState())).toEqual(LOADED_DATA);
+    });
+
+    it('drops persisted data with a different version', async () => {
+      const storage = createMemoryStorage();
+      storage.setItem('monitoredSlice/testSlice', persistedItem());
+      const { actions, selectors, store } = buildStore({ storage, version: 1 });
+      await store.dispatch(actions.rehydrate());
+      expect(selectors.selectHasData(store.getState())).toEqual(false);
+      expect(storage.getItem('monitoredSlice/testSlice')).toEqual(null);
+    });
+
+    it('drops persisted data older than maxAge', async () => {
+      const storage = createMemoryStorage();
+      storage.setItem('monitoredSlice/testSlice', persistedItem());
+      const { actions, selectors, store } = buildStore({
+        storage,
+        maxAge: 499,
+      });
+      await store.dispatch(actions.rehydrate());
+      expect(selectors.selectHasData(store.getState())).toEqual(false);
+      expect(storage.getItem('monitoredSlice/testSlice')).toEqual(null);
+    });
+
+    it('does not replace loaded data', async () => {
+      const storage = createMemoryStorage();
+      const { actions, selectors, store } = buildStore(
+        { storage },
+        jest.fn().mockResolvedValue([])
+      );
+      await store.dispatch(actions.load());
+      storage.setItem('monitoredSlice/testSlice', persistedItem());
+      await store.dispatch(actions.rehydrate());
+      expect(selectors.selectData(store.getState())).toEqual([]);
+      expect(selectors.selectStale(store.getState())).toEqual(false);
+    });
+
+    it('renders persisted data then revalidates it', async () => {
+      const storage = createMemoryStorage();
+      storage.setItem(
+        'monitoredSlice/testSlice',
+        persistedItem({ params: null })
+      );
+      const loader = jest.fn().mockResolvedValue([]);
+      const { actions, hooks, store } = buildStore({ storage }, loader);
+      store.dispatch(actions.rehydrate());
+      const { result } = renderHook(() => hooks.useMonitoredData(), {
+        wrapper: ({ children }) => (
+          <Provider store={store}>{children}</Provider>
+        ),
+      });
+      expect(result.all[0]).toEqual(
+        expect.objectContaining({ data: LOADED_DATA, status: 'refreshing' })
+      );
+      await waitFor(() => expect(result.current.status).toEqual('success'));
+      expect(result.current.data).toEqual([]);
+      expect(loader).toBeCalledTimes(1);
+    });
+  });
+});
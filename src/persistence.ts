@@ -0,0 +1,112 @@
+/**
+ * Storage which persisted monitored data is written to, either synchronous (e.g. window.localStorage) or asynchronous.
+ */
+export interface IMonitoredStorage {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+/**
+ * Configuration options for persisting a monitored slice's data.
+ */
+export interface IPersistOptions {
+  /**
+   * Storage to persist to, e.g. window.localStorage, createIndexedDBStorage() or createMemoryStorage().
+   */
+  storage: IMonitoredStorage;
+
+  /**
+   * Key the data is persisted under. Default: monitoredSlice/ followed by the slice name
+   */
+  key?: string;
+
+  /**
+   * Version of the persisted data's schema, persisted data with a different version is dropped. Default: 0
+   */
+  version?: number;
+
+  /**
+   * Maximum age in milliseconds since loading for persisted data to be rehydrated, older data is dropped. Default: no limit
+   */
+  maxAge?: number;
+}
+
+/**
+ * Creates a storage which keeps items in memory, e.g. for tests.
+ * @returns New storage
+ */
+export function createMemoryStorage(): IMonitoredStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * Creates a storage which keeps items in an IndexedDB object store, opening the database when first used.
+ * @param databaseName Name of the database. Default: monitoredSlices
+ * @param storeName Name of the object store. Default: entries
+ * @param factory IndexedDB implementation to open the database with. Default: the global indexedDB
+ * @returns New storage
+ */
+export function createIndexedDBStorage(
+  databaseName = 'monitoredSlices',
+  storeName = 'entries',
+  factory?: IDBFactory
+): IMonitoredStorage {
+  let database: Promise<IDBDatabase> | undefined;
+
+  /**
+   * Runs a request against the object store within its own transaction.
+   * @param mode Transaction mode
+   * @param run Function which makes the request
+   * @returns Promise which resolves with the request's result
+   */
+  const request = <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    database =
+      database ??
+      new Promise((resolve, reject) => {
+        const open = (factory ?? indexedDB).open(databaseName, 1);
+        open.onupgradeneeded = () => open.result.createObjectStore(storeName);
+        open.onsuccess = () => resolve(open.result);
+        open.onerror = () => {
+          // Opened again by the next request rather than failing every request
+          database = undefined;
+          reject(open.error);
+        };
+      });
+    return database.then(
+      (db) =>
+        new Promise<T>((resolve, reject) => {
+          const storeRequest = run(
+            db.transaction(storeName, mode).objectStore(storeName)
+          );
+          storeRequest.onsuccess = () => resolve(storeRequest.result);
+          storeRequest.onerror = () => reject(storeRequest.error);
+        })
+    );
+  };
+
+  return {
+    getItem: (key) =>
+      request('readonly', (store) => store.get(key)).then((value) =>
+        typeof value === 'string' ? value : null
+      ),
+    setItem: (key, value) =>
+      request('readwrite', (store) => store.put(value, key)).then(
+        () => undefined
+      ),
+    removeItem: (key) =>
+      request('readwrite', (store) => store.delete(key)).then(() => undefined),
+  };
+}
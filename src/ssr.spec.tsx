@@ -0,0 +1,194 @@
+import { Provider } from 'react-redux';
+import { renderToString } from 'react-dom/server';
+import {
+  PayloadAction,
+  configureStore,
+  createSlice,
+  SliceCaseReducers,
+  createSelector,
+} from '@reduxjs/toolkit';
+import { renderHook } from '@testing-library/react-hooks';
+import {
+  createMonitoredSlice,
+  createMonitoredSliceCollector,
+  IMonitoredState,
+  MonitoredSliceCollectorProvider,
+  prefetchMonitoredSlices,
+} from './';
+
+interface ITestItem {
+  id: string;
+  name: string;
+}
+
+interface IOtherState {
+  factoryId: string;
+}
+
+type ITestState = IMonitoredState<ITestItem[]>;
+
+interface IRootState {
+  testSlice: ITestState;
+  otherTestSlice: ITestState;
+  otherSlice: IOtherState;
+}
+
+const otherSlice = createSlice<IOtherState, SliceCaseReducers<IOtherState>>({
+  name: 'otherSlice',
+  initialState: {
+    factoryId: 'factory1',
+  },
+  reducers: {
+    setFactoryId: (state, action: PayloadAction<string>) => {
+      state.factoryId = action.payload;
+    },
+  },
+});
+
+const selectFactoryId = createSelector<IRootState, IOtherState, string>(
+  (state) => state.otherSlice,
+  (slice) => slice.factoryId
+);
+
+const buildMonitoredSlice = (
+  name: string,
+  loader = jest
+    .fn()
+    .mockImplementation((factoryId: string) =>
+      Promise.resolve([{ id: factoryId, name }])
+    )
+) =>
+  createMonitoredSlice<IRootState, ITestItem[], ITestState, string>(
+    { name, initialState: {}, reducers: {} },
+    [],
+    loader,
+    selectFactoryId
+  );
+
+const buildStore = (
+  testSlice = buildMonitoredSlice('testSlice'),
+  otherTestSlice = buildMonitoredSlice('otherTestSlice'),
+  preloadedState?: IRootState
+) =>
+  configureStore({
+    reducer: {
+      testSlice: testSlice.slice.reducer,
+      otherTestSlice: otherTestSlice.slice.reducer,
+      otherSlice: otherSlice.reducer,
+    },
+    preloadedState,
+  });
+
+describe('ssr', () => {
+  describe('createMonitoredSliceCollector', () => {
+    // react-redux's Provider warns about useLayoutEffect when rendered on the server within jsdom
+    beforeEach(() => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('collects each slice monitored while rendering once', () => {
+      const testSlice = buildMonitoredSlice('testSlice');
+      const otherTestSlice = buildMonitoredSlice('otherTestSlice');
+      const store = buildStore(testSlice, otherTestSlice);
+      const collector = createMonitoredSliceCollector();
+      const TestComponent = () => {
+        testSlice.hooks.useMonitoredData();
+        return null;
+      };
+      renderToString(
+        <Provider store={store}>
+          <MonitoredSliceCollectorProvider collector={collector}>
+            <TestComponent />
+            <TestComponent />
+            <otherTestSlice.context.ContextProvider>
+              <div />
+            </otherTestSlice.context.ContextProvider>
+          </MonitoredSliceCollectorProvider>
+        </Provider>
+      );
+      expect(collector.slices).toEqual([testSlice, otherTestSlice]);
+    });
+
+    it('does not load while rendering', () => {
+      const loader = jest.fn().mockResolvedValue([]);
+      const testSlice = buildMonitoredSlice('testSlice', loader);
+      const store = buildStore(testSlice);
+      const collector = createMonitoredSliceCollector();
+      const TestComponent = () => {
+        testSlice.hooks.useMonitoredData();
+        return null;
+      };
+      renderToString(
+        <Provider store={store}>
+          <MonitoredSliceCollectorProvider collector={collector}>
+            <TestComponent />
+          </MonitoredSliceCollectorProvider>
+        </Provider>
+      );
+      expect(loader).not.toBeCalled();
+    });
+  });
+
+  describe('prefetchMonitoredSlices', () => {
+    it('loads every slice using its loaderParamsSelector', async () => {
+      const testSlice = buildMonitoredSlice('testSlice');
+      const otherTestSlice = buildMonitoredSlice('otherTestSlice');
+      const store = buildStore(testSlice, otherTestSlice);
+      await prefetchMonitoredSlices(store, [testSlice, otherTestSlice]);
+      expect(testSlice.selectors.selectData(store.getState())).toEqual([
+        { id: 'factory1', name: 'testSlice' },
+      ]);
+      expect(otherTestSlice.selectors.selectData(store.getState())).toEqual([
+        { id: 'factory1', name: 'otherTestSlice' },
+      ]);
+      expect(testSlice.selectors.selectStale(store.getState())).toEqual(false);
+    });
+
+    it('loads with params when provided', async () => {
+      const loader = jest.fn().mockResolvedValue([]);
+      const testSlice = buildMonitoredSlice('testSlice', loader);
+      const store = buildStore(testSlice);
+      await prefetchMonitoredSlices(store, [testSlice], 'factory2');
+      expect(loader).toBeCalledWith('factory2', expect.any(AbortSignal), []);
+    });
+
+    it('stores errors instead of rejecting', async () => {
+      const loader = jest.fn().mockRejectedValue(new Error('failed'));
+      const testSlice = buildMonitoredSlice('testSlice', loader);
+      const store = buildStore(testSlice);
+      await prefetchMonitoredSlices(store, [testSlice]);
+      expect(testSlice.selectors.selectError(store.getState())).toEqual(
+        expect.objectContaining({ message: 'failed' })
+      );
+    });
+
+    it('hydrates a client store without reloading', async () => {
+      const loader = jest
+        .fn()
+        .mockResolvedValue([{ id: 'id1', name: 'name1' }]);
+      const testSlice = buildMonitoredSlice('testSlice', loader);
+      const serverStore = buildStore(testSlice);
+      await prefetchMonitoredSlices(serverStore, [testSlice]);
+      const serializedState = JSON.stringify(serverStore.getState());
+
+      loader.mockClear();
+      const clientStore = buildStore(
+        testSlice,
+        undefined,
+        JSON.parse(serializedState)
+      );
+      const { result } = renderHook(() => testSlice.hooks.useMonitoredData(), {
+        wrapper: ({ children }) => (
+          <Provider store={clientStore}>{children}</Provider>
+        ),
+      });
+      expect(result.current.loading).toEqual(false);
+      expect(result.current.data).toEqual([{ id: 'id1', name: 'name1' }]);
+      expect(loader).not.toBeCalled();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import React from 'react';
+import { ThunkAction, ThunkDispatch, AnyAction } from '@reduxjs/toolkit';
+import type { ILoadOptions } from './';
+
+/**
+ * The parts of a monitored slice which are needed to prefetch it.
+ */
+export interface IPrefetchableSlice<IRootState, ILoaderParams = unknown> {
+  actions: {
+    load: (
+      loadOptions?: ILoadOptions<ILoaderParams>
+    ) => ThunkAction<Promise<void>, IRootState, unknown, AnyAction>;
+  };
+}
+
+/**
+ * Any prefetchable slice, regardless of its root state and loader params.
+ */
+type AnyPrefetchableSlice = IPrefetchableSlice<unknown, unknown>;
+
+/**
+ * Collects the monitored slices which are monitored during a render pass.
+ */
+export interface IMonitoredSliceCollector {
+  /**
+   * Slices monitored so far, in the order they were first monitored.
+   */
+  slices: AnyPrefetchableSlice[];
+
+  /**
+   * Records a monitored slice, ignoring slices which were already collected.
+   */
+  collect: (monitoredSlice: AnyPrefetchableSlice) => void;
+}
+
+/**
+ * Creates a collector for the monitored slices used during a render pass (e.g. a server side renderToString).
+ * @returns New collector
+ */
+export function createMonitoredSliceCollector(): IMonitoredSliceCollector {
+  const slices: AnyPrefetchableSlice[] = [];
+  return {
+    slices,
+    collect: (monitoredSlice) => {
+      if (!slices.includes(monitoredSlice)) {
+        slices.push(monitoredSlice);
+      }
+    },
+  };
+}
+
+/**
+ * Context which provides the collector that useMonitoredData registers its slice with while rendering.
+ */
+export const MonitoredSliceCollectorContext =
+  React.createContext<IMonitoredSliceCollector | null>(null);
+
+export interface MonitoredSliceCollectorProviderProps {
+  collector: IMonitoredSliceCollector;
+  children: React.ReactNode;
+}
+
+/**
+ * Provides a collector to every useMonitoredData hook and ContextProvider rendered within it.
+ * @param props Accepts the collector and children prop which it renders
+ * @returns ReactElement
+ */
+export const MonitoredSliceCollectorProvider = ({
+  collector,
+  children,
+}: MonitoredSliceCollectorProviderProps): JSX.Element => (
+  <MonitoredSliceCollectorContext.Provider value={collector}>
+    {children}
+  </MonitoredSliceCollectorContext.Provider>
+);
+
+/**
+ * Loads monitored slices into a store and waits for them to settle, so the store can be serialized and hydrated on the client without reloading.
+ * Failed loads are stored on their slices rather than rejecting.
+ * @param store Store to load the slices into
+ * @param slices Monitored slices to load, e.g. the slices of a collector
+ * @param params Optional loader params to use instead of each slice's loaderParamsSelector
+ * @returns Promise which resolves once every slice's load settles
+ */
+export async function prefetchMonitoredSlices<IRootState, ILoaderParams>(
+  store: { dispatch: ThunkDispatch<IRootState, unknown, AnyAction> },
+  slices: IPrefetchableSlice<IRootState, ILoaderParams>[],
+  ...params: [] | [ILoaderParams]
+): Promise<void> {
+  await Promise.all(
+    slices.map((monitoredSlice) =>
+      store.dispatch(
+        monitoredSlice.actions.load(params.length ? { params: params[0] } : {})
+      )
+    )
+  );
+}
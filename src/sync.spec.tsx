@@ -0,0 +1,304 @@
+import { Provider } from 'react-redux';
+import { configureStore, createSelector } from '@reduxjs/toolkit';
+import { act, waitFor } from '@testing-library/react';
+import { renderHook } from '@testing-library/react-hooks';
+import {
+  createMemorySyncTransport,
+  createMonitoredSlice,
+  createMonitoredSyncMiddleware,
+  IMonitoredState,
+  IMonitoredSyncChannel,
+} from './';
+
+interface ITestItem {
+  id: string;
+  name: string;
+}
+
+type ITestState = IMonitoredState<ITestItem[]>;
+
+interface IRootState {
+  testSlice: ITestState;
+  params: string;
+}
+
+const LOADED_DATA = [{ id: 'id1', name: 'name1' }];
+
+/**
+ * Builds a store for one tab, with its own loader, connected to the other tabs through a channel.
+ */
+const buildTab = (
+  channel: IMonitoredSyncChannel,
+  loader = jest.fn().mockResolvedValue(LOADED_DATA),
+  { params = 'factory1', syncTimeout = 10000, keyed = false } = {}
+) => {
+  const monitoredSlice = createMonitoredSlice<
+    IRootState,
+    ITestItem[],
+    ITestState,
+    string
+  >(
+    {
+      name: 'testSlice',
+      initialState: {},
+      reducers: {},
+      now: () => 1000,
+      syncTimeout,
+      keyed,
+    },
+    [],
+    loader,
+    createSelector(
+      (state: IRootState) => state.params,
+      (loaderParams) => loaderParams
+    )
+  );
+  const store = configureStore({
+    reducer: {
+      testSlice: monitoredSlice.slice.reducer,
+      params: (state: string = params) => state,
+    },
+    middleware: (getDefaultMiddleware) =>
+      getDefaultMiddleware().concat(
+        createMonitoredSyncMiddleware([monitoredSlice], channel)
+      ),
+  });
+  return { ...monitoredSlice, loader, store };
+};
+
+const deferred = <T,>() => {
+  let resolve: (value: T) => void;
+  let reject: (err: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+/**
+ * Waits for messages in flight between tabs to be delivered.
+ */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('sync', () => {
+  describe('createMemorySyncTransport', () => {
+    it('delivers messages to every other channel', async () => {
+      const createChannel = createMemorySyncTransport();
+      const [first, second, third] = [
+        createChannel(),
+        createChannel(),
+        createChannel(),
+      ];
+      const listeners = [jest.fn(), jest.fn(), jest.fn()];
+      first.addEventListener('message', listeners[0]);
+      second.addEventListener('message', listeners[1]);
+      third.addEventListener('message', listeners[2]);
+      const message = {
+        name: 'testSlice',
+        type: 'loading' as const,
+        key: '"factory1"',
+      };
+      first.postMessage(message);
+      expect(listeners[1]).not.toBeCalled();
+      await flush();
+      expect(listeners[0]).not.toBeCalled();
+      expect(listeners[1]).toBeCalledWith({ data: message });
+      expect(listeners[2]).toBeCalledWith({ data: message });
+    });
+  });
+
+  describe('createMonitoredSyncMiddleware', () => {
+    it('shares loaded data with other tabs', async () => {
+      const createChannel = createMemorySyncTransport();
+      const first = buildTab(createChannel());
+      const second = buildTab(createChannel());
+      await first.store.dispatch(first.actions.load());
+      await flush();
+      expect(second.selectors.selectData(second.store.getState())).toEqual(
+        LOADED_DATA
+      );
+      expect(second.selectors.selectFetchedAt(second.store.getState())).toEqual(
+        1000
+      );
+      expect(second.selectors.selectStale(second.store.getState())).toEqual(
+        false
+      );
+      await second.store.dispatch(second.actions.load());
+      expect(second.loader).not.toBeCalled();
+    });
+
+    it('waits for another tab loading the same params instead of loading', async () => {
+      const createChannel = createMemorySyncTransport();
+      const request = deferred<ITestItem[]>();
+      const first = buildTab(
+        createChannel(),
+        jest.fn().mockReturnValue(request.promise)
+      );
+      const second = buildTab(createChannel());
+      const firstLoad = first.store.dispatch(first.actions.load());
+      await flush();
+      expect(second.selectors.selectStatus(second.store.getState())).toEqual(
+        'loading'
+      );
+      const secondLoad = second.store.dispatch(second.actions.ensureLoaded());
+      request.resolve(LOADED_DATA);
+      await firstLoad;
+      expect(await secondLoad).toEqual(LOADED_DATA);
+      expect(second.loader).not.toBeCalled();
+    });
+
+    it('loads itself once the other tab fails to load', async () => {
+      const createChannel = createMemorySyncTransport();
+      const request = deferred<ITestItem[]>();
+      const first = buildTab(
+        createChannel(),
+        jest.fn().mockReturnValue(request.promise)
+      );
+      const second = buildTab(createChannel());
+      const firstLoad = first.store.dispatch(first.actions.load());
+      await flush();
+      request.reject(new Error('failed'));
+      await firstLoad;
+      await flush();
+      expect(second.selectors.selectLoading(second.store.getState())).toEqual(
+        false
+      );
+      await second.store.dispatch(second.actions.load());
+      expect(second.loader).toBeCalledTimes(1);
+      expect(second.selectors.selectData(second.store.getState())).toEqual(
+        LOADED_DATA
+      );
+    });
+
+    it('loads itself once the other tab takes longer than syncTimeout', async () => {
+      const createChannel = createMemorySyncTransport();
+      const first = buildTab(
+        createChannel(),
+        jest.fn().mockReturnValue(new Promise(() => undefined))
+      );
+      const second = buildTab(createChannel(), undefined, { syncTimeout: 10 });
+      first.store.dispatch(first.actions.load());
+      await flush();
+      const secondLoad = second.store.dispatch(second.actions.ensureLoaded());
+      expect(second.loader).not.toBeCalled();
+      await waitFor(() =>
+        expect(second.selectors.selectLoading(second.store.getState())).toEqual(
+          false
+        )
+      );
+      await second.store.dispatch(second.actions.load());
+      expect(await secondLoad).toEqual(LOADED_DATA);
+      expect(second.loader).toBeCalledTimes(1);
+    });
+
+    it('ignores data loaded for other params', async () => {
+      const createChannel = createMemorySyncTransport();
+      const first = buildTab(createChannel());
+      const second = buildTab(createChannel(), undefined, {
+        params: 'factory2',
+      });
+      await second.store.dispatch(second.actions.load());
+      first.loader.mockResolvedValue([]);
+      await first.store.dispatch(first.actions.load());
+      await flush();
+      expect(second.selectors.selectData(second.store.getState())).toEqual(
+        LOADED_DATA
+      );
+      expect(second.selectors.selectStatus(second.store.getState())).toEqual(
+        'success'
+      );
+    });
+
+    it('makes other tabs stale without echoing back', async () => {
+      const createChannel = createMemorySyncTransport();
+      const firstChannel = createChannel();
+      const secondChannel = createChannel();
+      const first = buildTab(firstChannel);
+      const second = buildTab(secondChannel);
+      await first.store.dispatch(first.actions.load());
+      await flush();
+      const postMessage = jest.spyOn(secondChannel, 'postMessage');
+      first.store.dispatch(first.slice.actions.makeStale(null));
+      await flush();
+      expect(second.selectors.selectStale(second.store.getState())).toEqual(
+        true
+      );
+      // Unmonitored tabs don't reload, so other tabs don't wait for them
+      expect(second.selectors.selectLoading(second.store.getState())).toEqual(
+        false
+      );
+      expect(postMessage).not.toBeCalled();
+    });
+
+    it('does not wait for another tab reloading other params', async () => {
+      const createChannel = createMemorySyncTransport();
+      const first = buildTab(createChannel());
+      const second = buildTab(createChannel(), undefined, {
+        params: 'factory2',
+      });
+      await first.store.dispatch(first.actions.load());
+      await second.store.dispatch(second.actions.load());
+      await flush();
+      first.store.dispatch(first.slice.actions.addMonitor(null));
+      first.store.dispatch(first.slice.actions.makeStale(null));
+      await flush();
+      expect(second.selectors.selectStale(second.store.getState())).toEqual(
+        true
+      );
+      expect(second.selectors.selectLoading(second.store.getState())).toEqual(
+        false
+      );
+    });
+
+    it('does not share switching to other params in keyed mode as making data stale', async () => {
+      const createChannel = createMemorySyncTransport();
+      const firstChannel = createChannel();
+      const first = buildTab(firstChannel, undefined, { keyed: true });
+      const second = buildTab(createChannel(), undefined, { keyed: true });
+      await first.store.dispatch(first.actions.load());
+      await second.store.dispatch(second.actions.load());
+      await flush();
+      first.store.dispatch(first.slice.actions.addMonitor(null));
+      const postMessage = jest.spyOn(firstChannel, 'postMessage');
+      await first.store.dispatch(first.actions.load({ params: 'factory2' }));
+      await flush();
+      expect(postMessage).not.toBeCalledWith(
+        expect.objectContaining({ type: 'makeStale' })
+      );
+      expect(second.selectors.selectStale(second.store.getState())).toEqual(
+        false
+      );
+      expect(second.selectors.selectLoading(second.store.getState())).toEqual(
+        false
+      );
+    });
+
+    it('shares a single load between monitoring tabs', async () => {
+      const createChannel = createMemorySyncTransport();
+      const first = buildTab(createChannel());
+      const second = buildTab(createChannel());
+      const renderTab = ({ hooks, store }: ReturnType<typeof buildTab>) =>
+        renderHook(() => hooks.useMonitoredData(), {
+          wrapper: ({ children }) => (
+            <Provider store={store}>{children}</Provider>
+          ),
+        });
+      const firstTab = renderTab(first);
+      await waitFor(() =>
+        expect(firstTab.result.current.status).toEqual('success')
+      );
+      await flush();
+      const secondTab = renderTab(second);
+      expect(secondTab.result.current.status).toEqual('success');
+
+      first.loader.mockResolvedValue([]);
+      act(() => {
+        first.store.dispatch(first.slice.actions.makeStale(null));
+      });
+      await waitFor(() => expect(secondTab.result.current.data).toEqual([]));
+      expect(first.loader).toBeCalledTimes(2);
+      expect(second.loader).not.toBeCalled();
+    });
+  });
+});
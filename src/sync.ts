@@ -0,0 +1,173 @@
+import {
+  Middleware,
+  Slice,
+  ThunkAction,
+  ThunkDispatch,
+  AnyAction,
+} from '@reduxjs/toolkit';
+import type { IMonitoredState, MonitoredTag } from './';
+
+/**
+ * Message sent between tabs about a monitored slice's data, identifying params by their key (the serialized params).
+ * makeStale: the data was made stale, monitored is true if the sending tab is about to reload the key's params.
+ * loading: the sending tab started loading data for the key's params.
+ * fulfill: the sending tab loaded data for the key's params.
+ * settled: the sending tab stopped loading data for the key's params without loading it (e.g. the load failed).
+ */
+export type MonitoredSyncMessage =
+  | { name: string; type: 'makeStale'; monitored: boolean; key: string | null }
+  | { name: string; type: 'loading'; key: string | null }
+  | {
+      name: string;
+      type: 'fulfill';
+      key: string | null;
+      data: unknown;
+      fetchedAt: number | null;
+      providedTags: MonitoredTag[];
+    }
+  | { name: string; type: 'settled'; key: string | null };
+
+/**
+ * Channel which sends messages to every other tab, e.g. a BroadcastChannel.
+ */
+export interface IMonitoredSyncChannel {
+  postMessage: (message: MonitoredSyncMessage) => void;
+  addEventListener: (
+    type: 'message',
+    listener: (event: { data: MonitoredSyncMessage }) => void
+  ) => void;
+}
+
+/**
+ * The parts of a monitored slice which are needed to synchronise it.
+ */
+export interface ISyncableSlice<IRootState> {
+  slice: Pick<Slice, 'name' | 'actions'>;
+  selectors: {
+    selectSlice: (state: IRootState) => IMonitoredState<unknown>;
+  };
+  actions: {
+    receiveSync: (
+      message: MonitoredSyncMessage
+    ) => ThunkAction<void, IRootState, unknown, AnyAction>;
+  };
+}
+
+/**
+ * Creates a transport which connects channels in memory, asynchronously delivering each message to every other channel, e.g. to simulate tabs in tests.
+ * @returns Function which creates a channel connected to the transport
+ */
+export function createMemorySyncTransport(): () => IMonitoredSyncChannel {
+  const listeners = new Map<
+    IMonitoredSyncChannel,
+    ((event: { data: MonitoredSyncMessage }) => void)[]
+  >();
+  return () => {
+    const channel: IMonitoredSyncChannel = {
+      postMessage: (message) => {
+        listeners.forEach((channelListeners, otherChannel) => {
+          if (otherChannel !== channel) {
+            channelListeners.forEach((listener) =>
+              Promise.resolve().then(() => listener({ data: message }))
+            );
+          }
+        });
+      },
+      addEventListener: (_type, listener) => {
+        listeners.get(channel).push(listener);
+      },
+    };
+    listeners.set(channel, []);
+    return channel;
+  };
+}
+
+/**
+ * Creates a middleware which synchronises monitored slices with other tabs, so a tab waits for another tab's load of the same params instead of loading itself.
+ * It must be added after the thunk middleware, e.g. getDefaultMiddleware().concat(middleware).
+ * @param slices Monitored slices to synchronise
+ * @param channel Channel to the other tabs, e.g. new BroadcastChannel('monitoredSlices')
+ * @returns Middleware
+ */
+export function createMonitoredSyncMiddleware<IRootState>(
+  slices: ISyncableSlice<IRootState>[],
+  channel: IMonitoredSyncChannel
+): Middleware<
+  unknown,
+  IRootState,
+  ThunkDispatch<IRootState, unknown, AnyAction>
+> {
+  return (api) => {
+    // Messages aren't sent for the actions which apply received messages, so tabs don't echo each other
+    let receiving = false;
+
+    channel.addEventListener('message', ({ data: message }) => {
+      const syncedSlice = slices.find(
+        ({ slice }) => slice.name === message?.name
+      );
+      if (!syncedSlice) {
+        return;
+      }
+      receiving = true;
+      try {
+        api.dispatch(syncedSlice.actions.receiveSync(message));
+      } finally {
+        receiving = false;
+      }
+    });
+
+    return (next) => (action) => {
+      if (receiving) {
+        return next(action);
+      }
+      const previousState = api.getState();
+      const result = next(action);
+      const state = api.getState();
+      for (const { slice, selectors } of slices) {
+        const previous = selectors.selectSlice(previousState);
+        const current = selectors.selectSlice(state);
+        const { name, actions } = slice;
+        if (actions.makeLoading.match(action)) {
+          channel.postMessage({
+            name,
+            type: 'loading',
+            key: current.key,
+          });
+        } else if (actions.fulfill.match(action) && !current.pendingUpdates) {
+          channel.postMessage({
+            name,
+            type: 'fulfill',
+            key: current.key,
+            data: action.payload.data,
+            fetchedAt: action.payload.fetchedAt,
+            providedTags: current.providedTags,
+          });
+        } else if (
+          // Data with pending optimistic updates isn't shared, so other tabs load it themselves
+          actions.fulfill.match(action) ||
+          actions.reject.match(action) ||
+          actions.cancel.match(action)
+        ) {
+          channel.postMessage({
+            name,
+            type: 'settled',
+            key: current.key,
+          });
+        } else if (
+          // Switching to the (stale) entry of other params in keyed mode doesn't make any data stale
+          !actions.switchKey.match(action) &&
+          !previous.stale &&
+          current.stale
+        ) {
+          channel.postMessage({
+            name,
+            type: 'makeStale',
+            monitored: current.monitorCount > 0,
+            key: current.key,
+          });
+        }
+      }
+      return result;
+    };
+  };
+}
@@ -0,0 +1,37 @@
+import { invalidateTags, tagsMatch } from './';
+
+describe('tags', () => {
+  describe('invalidateTags', () => {
+    it('creates an action carrying the invalidated tags', () => {
+      expect(invalidateTags(['Widget', { type: 'Factory', id: 3 }])).toEqual({
+        type: 'monitoredSlice/invalidateTags',
+        payload: ['Widget', { type: 'Factory', id: 3 }],
+      });
+    });
+  });
+
+  describe('tagsMatch', () => {
+    it('matches tags of the same type', () => {
+      expect(tagsMatch(['Widget'], ['Widget'])).toBe(true);
+      expect(tagsMatch(['Widget'], ['Factory'])).toBe(false);
+    });
+
+    it('matches every id when either tag has no id', () => {
+      expect(tagsMatch(['Factory'], [{ type: 'Factory', id: 3 }])).toBe(true);
+      expect(tagsMatch([{ type: 'Factory', id: 3 }], ['Factory'])).toBe(true);
+    });
+
+    it('only matches equal ids when both tags have one', () => {
+      expect(
+        tagsMatch([{ type: 'Factory', id: 3 }], [{ type: 'Factory', id: 3 }])
+      ).toBe(true);
+      expect(
+        tagsMatch([{ type: 'Factory', id: 3 }], [{ type: 'Factory', id: 4 }])
+      ).toBe(false);
+    });
+
+    it('does not match when nothing is provided', () => {
+      expect(tagsMatch([], ['Widget'])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { createAction } from '@reduxjs/toolkit';
+
+/**
+ * Tag describing data provided by a monitored slice, either a type (e.g. 'Widget') or a type and id (e.g. { type: 'Factory', id: 3 }).
+ */
+export type MonitoredTag = string | { type: string; id?: string | number };
+
+/**
+ * Action which marks every monitored slice providing a matching tag as stale.
+ * A tag without an id matches every tag of the same type, a tag with an id matches tags of the same type with the same id or no id.
+ */
+export const invalidateTags = createAction<MonitoredTag[]>(
+  'monitoredSlice/invalidateTags'
+);
+
+/**
+ * Normalizes a tag to its object form.
+ * @param tag Tag to normalize
+ * @returns Tag with type and optional id
+ */
+const normalizeTag = (
+  tag: MonitoredTag
+): { type: string; id?: string | number } =>
+  typeof tag === 'string' ? { type: tag } : tag;
+
+/**
+ * Checks if any invalidated tag matches any provided tag.
+ * @param providedTags Tags provided by a monitored slice
+ * @param invalidatedTags Tags being invalidated
+ * @returns True if at least one tag matches
+ */
+export function tagsMatch(
+  providedTags: MonitoredTag[],
+  invalidatedTags: MonitoredTag[]
+): boolean {
+  return invalidatedTags
+    .map(normalizeTag)
+    .some((invalidated) =>
+      providedTags
+        .map(normalizeTag)
+        .some(
+          (provided) =>
+            provided.type === invalidated.type &&
+            (provided.id === undefined ||
+              invalidated.id === undefined ||
+              provided.id === invalidated.id)
+        )
+    );
+}